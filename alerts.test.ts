@@ -0,0 +1,57 @@
+import { Database } from "bun:sqlite"
+import { beforeEach, describe, expect, test } from "bun:test"
+import { AlertStore, conditionMet, waitsToClear, type Alert } from "./alerts"
+
+let store: AlertStore
+
+beforeEach(() => {
+  store = new AlertStore(new Database(":memory:"))
+})
+
+const market = (price: number) => ({ price, prevClose: 100, volume: 0, prevVolume: 0 })
+
+function create(rearm: boolean, armed?: boolean): Alert {
+  return store.create({ symbol: "AAPL", condition: "price_cross", direction: "above", threshold: 110, rearm, note: null, armed })
+}
+
+describe("conditionMet", () => {
+  test("price_cross holds at or past the threshold", () => {
+    expect(conditionMet({ condition: "price_cross", direction: "above", threshold: 110 }, market(110))).toBe(true)
+    expect(conditionMet({ condition: "price_cross", direction: "above", threshold: 110 }, market(109.99))).toBe(false)
+    expect(conditionMet({ condition: "price_cross", direction: "below", threshold: 90 }, market(90))).toBe(true)
+  })
+
+  test("percent_move measures from the previous close", () => {
+    expect(conditionMet({ condition: "percent_move", direction: "down", threshold: 5 }, market(95))).toBe(true)
+    expect(conditionMet({ condition: "percent_move", direction: "up", threshold: 5 }, market(95))).toBe(false)
+    expect(conditionMet({ condition: "percent_move", direction: "either", threshold: 5 }, market(105))).toBe(true)
+  })
+})
+
+describe("AlertStore", () => {
+  test("an alert created past its threshold waits to clear before it can fire", () => {
+    const alert = create(false, false)
+    expect(alert.armed).toBe(false)
+    expect(waitsToClear(alert)).toBe(true)
+    expect(store.active().map(a => a.id)).toEqual([alert.id])
+
+    store.rearm(alert.id)
+    expect(store.active()[0].armed).toBe(true)
+  })
+
+  test("a fired one-shot alert is spent and no longer checked", () => {
+    const alert = create(false)
+    store.markTriggered(alert.id)
+
+    const [spent] = store.list()
+    expect(spent).toMatchObject({ armed: false, trigger_count: 1 })
+    expect(waitsToClear(spent)).toBe(false)
+    expect(store.active()).toEqual([])
+  })
+
+  test("a fired re-arming alert waits to clear", () => {
+    const alert = create(true)
+    store.markTriggered(alert.id)
+    expect(waitsToClear(store.active()[0])).toBe(true)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Price alerts
+ * Alert storage in the plugin database and the trigger rules the scheduled
+ * checker applies to each snapshot.
+ */
+
+import type { SqlDatabase } from "./db"
+
+// ── Types ───────────────────────────────────────────────────
+
+/**
+ * price_cross  last trade crosses `threshold` in `direction` (above/below); an
+ *              alert created with the price already past it waits for the
+ *              price to come back before it can fire
+ * percent_move change from previous close reaches `threshold` percent (up/down/either)
+ * volume_spike today's volume reaches `threshold` × the previous day's volume
+ */
+export type AlertCondition = "price_cross" | "percent_move" | "volume_spike"
+
+export type AlertDirection = "above" | "below" | "up" | "down" | "either"
+
+export interface Alert {
+  id: number
+  symbol: string
+  condition: AlertCondition
+  direction: AlertDirection
+  threshold: number
+  /** Re-arming alerts fire again after the condition clears; one-shot alerts are spent after one trigger */
+  rearm: boolean
+  /**
+   * False while a fired alert, or a new one whose condition already held
+   * when it was created, waits for its condition to clear, and once a
+   * one-shot alert is spent
+   */
+  armed: boolean
+  note: string | null
+  created_at: string
+  last_triggered_at: string | null
+  trigger_count: number
+}
+
+export interface AlertMarket {
+  price: number
+  prevClose: number
+  volume: number
+  prevVolume: number
+}
+
+// ── Rules ───────────────────────────────────────────────────
+
+/** Whether the alert's condition currently holds. */
+export function conditionMet(alert: Pick<Alert, "condition" | "direction" | "threshold">, m: AlertMarket): boolean {
+  switch (alert.condition) {
+    case "price_cross":
+      return alert.direction === "below" ? m.price <= alert.threshold : m.price >= alert.threshold
+    case "percent_move": {
+      if (!m.prevClose) return false
+      const pct = ((m.price - m.prevClose) / m.prevClose) * 100
+      if (alert.direction === "up") return pct >= alert.threshold
+      if (alert.direction === "down") return pct <= -alert.threshold
+      return Math.abs(pct) >= alert.threshold
+    }
+    case "volume_spike":
+      return m.prevVolume > 0 && m.volume >= alert.threshold * m.prevVolume
+  }
+}
+
+/** Whether a disarmed alert arms again once its condition clears, rather than being spent */
+export function waitsToClear(alert: Pick<Alert, "armed" | "rearm" | "trigger_count">): boolean {
+  return !alert.armed && (alert.rearm || alert.trigger_count === 0)
+}
+
+export function describeAlert(alert: Pick<Alert, "symbol" | "condition" | "direction" | "threshold">): string {
+  switch (alert.condition) {
+    case "price_cross":
+      return `${alert.symbol} crosses ${alert.direction === "below" ? "below" : "above"} $${alert.threshold}`
+    case "percent_move": {
+      const dir = alert.direction === "up" ? "up" : alert.direction === "down" ? "down" : "up or down"
+      return `${alert.symbol} moves ${dir} ${alert.threshold}% from previous close`
+    }
+    case "volume_spike":
+      return `${alert.symbol} volume reaches ${alert.threshold}x the previous day`
+  }
+}
+
+// ── Store ───────────────────────────────────────────────────
+
+interface AlertRow extends Omit<Alert, "rearm" | "armed"> {
+  rearm: number
+  armed: number
+}
+
+function fromRow(row: AlertRow): Alert {
+  return { ...row, rearm: !!row.rearm, armed: !!row.armed }
+}
+
+export class AlertStore {
+  private db: SqlDatabase
+
+  constructor(db: SqlDatabase) {
+    this.db = db
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alpaca_alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        condition TEXT NOT NULL,
+        direction TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        rearm INTEGER NOT NULL DEFAULT 0,
+        armed INTEGER NOT NULL DEFAULT 1,
+        note TEXT,
+        created_at TEXT NOT NULL,
+        last_triggered_at TEXT,
+        trigger_count INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+  }
+
+  /** Pass `armed: false` for an alert whose condition already holds, so it waits for the condition to clear first */
+  create(alert: Pick<Alert, "symbol" | "condition" | "direction" | "threshold" | "rearm" | "note"> & { armed?: boolean }): Alert {
+    const row = this.db.query(`
+      INSERT INTO alpaca_alerts (symbol, condition, direction, threshold, rearm, armed, note, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `).get(alert.symbol, alert.condition, alert.direction, alert.threshold, alert.rearm ? 1 : 0, alert.armed === false ? 0 : 1, alert.note, new Date().toISOString())
+    return fromRow(row as AlertRow)
+  }
+
+  list(symbol?: string): Alert[] {
+    const rows = symbol
+      ? this.db.query("SELECT * FROM alpaca_alerts WHERE symbol = ? ORDER BY id").all(symbol)
+      : this.db.query("SELECT * FROM alpaca_alerts ORDER BY id").all()
+    return (rows as AlertRow[]).map(fromRow)
+  }
+
+  /** Alerts the checker must look at: armed ones, plus those waiting to clear (see waitsToClear). */
+  active(): Alert[] {
+    const rows = this.db.query("SELECT * FROM alpaca_alerts WHERE armed = 1 OR rearm = 1 OR trigger_count = 0 ORDER BY id").all()
+    return (rows as AlertRow[]).map(fromRow)
+  }
+
+  delete(id: number): boolean {
+    const existing = this.db.query("SELECT id FROM alpaca_alerts WHERE id = ?").get(id)
+    if (!existing) return false
+    this.db.query("DELETE FROM alpaca_alerts WHERE id = ?").run(id)
+    return true
+  }
+
+  markTriggered(id: number): void {
+    this.db.query(`
+      UPDATE alpaca_alerts
+      SET armed = 0, last_triggered_at = ?, trigger_count = trigger_count + 1
+      WHERE id = ?
+    `).run(new Date().toISOString(), id)
+  }
+
+  rearm(id: number): void {
+    this.db.query("UPDATE alpaca_alerts SET armed = 1 WHERE id = ?").run(id)
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test"
+import { annualizedVolatility, drawdownSeries, equityStats, maxDrawdown, periodReturns, sharpeRatio, sortinoRatio, stdev, totalReturn } from "./analytics"
+
+// Expected values below are worked out by hand from the fixed series
+
+const closeTo = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length)
+  actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 9))
+}
+
+describe("series helpers", () => {
+  test("periodReturns skips periods that start from zero equity", () => {
+    closeTo(periodReturns([0, 100, 110, 99]), [0.1, -0.1])
+  })
+
+  test("totalReturn measures from the first non-zero value", () => {
+    expect(totalReturn([0, 100, 125])).toBeCloseTo(0.25, 12)
+    expect(totalReturn([0, 0])).toBe(0)
+  })
+
+  test("stdev is the sample standard deviation", () => {
+    // Mean 5, squared deviations sum to 32, over n − 1 = 7
+    expect(stdev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(Math.sqrt(32 / 7), 12)
+    expect(stdev([3])).toBe(0)
+  })
+})
+
+describe("maxDrawdown", () => {
+  test("reports the deepest decline with its peak, trough and recovery", () => {
+    // 120 → 90 is 25%; the later 130 → 117 is only 10%. 130 at index 4 is the first value back at 120.
+    expect(maxDrawdown([100, 120, 90, 110, 130, 117])).toEqual({ depth: 0.25, peakIndex: 1, troughIndex: 2, recoveryIndex: 4 })
+  })
+
+  test("counts a return to exactly the peak as recovered", () => {
+    expect(maxDrawdown([100, 50, 100]).recoveryIndex).toBe(2)
+  })
+
+  test("leaves recoveryIndex null while still below the peak", () => {
+    expect(maxDrawdown([100, 80, 90, 99])).toEqual({ depth: expect.closeTo(0.2, 12), peakIndex: 0, troughIndex: 1, recoveryIndex: null })
+  })
+
+  test("is zero for a series that never falls", () => {
+    expect(maxDrawdown([100, 100, 105, 110])).toEqual({ depth: 0, peakIndex: 0, troughIndex: 0, recoveryIndex: null })
+    expect(maxDrawdown([])).toEqual({ depth: 0, peakIndex: 0, troughIndex: 0, recoveryIndex: null })
+  })
+})
+
+describe("drawdownSeries", () => {
+  test("measures every point against the running peak", () => {
+    closeTo(drawdownSeries([100, 120, 90, 110, 130, 117]), [0, 0, 0.25, 1 - 110 / 120, 0, 0.1])
+  })
+
+  test("is zero while equity is zero", () => {
+    closeTo(drawdownSeries([0, 0, 100, 50]), [0, 0, 0, 0.5])
+  })
+})
+
+describe("annualizedVolatility", () => {
+  test("scales the per-period deviation by the square root of periods per year", () => {
+    // stdev of ±1% is √0.0002 ≈ 0.0141421; × √252 ≈ 0.2244994
+    expect(annualizedVolatility([0.01, -0.01], 252)).toBeCloseTo(0.2244994, 6)
+  })
+
+  test("is zero for fewer than two returns", () => {
+    expect(annualizedVolatility([0.05], 252)).toBe(0)
+    expect(annualizedVolatility([], 252)).toBe(0)
+  })
+})
+
+describe("sharpeRatio", () => {
+  test("divides the mean return by its deviation and annualizes", () => {
+    // Mean 2%, stdev √0.0002; 0.02 / 0.0141421 × √4 = 2√2
+    expect(sharpeRatio([0.01, 0.03], 4)).toBeCloseTo(2 * Math.SQRT2, 9)
+  })
+
+  test("subtracts the per-period risk-free rate", () => {
+    // 4% a year over 4 periods is 1% each: excess returns 0% and 2%
+    expect(sharpeRatio([0.01, 0.03], 4, 0.04)).toBeCloseTo(Math.SQRT2, 9)
+  })
+
+  test("is zero when returns do not vary", () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01], 252)).toBe(0)
+    expect(sharpeRatio([], 252)).toBe(0)
+  })
+})
+
+describe("sortinoRatio", () => {
+  test("divides the mean return by the downside deviation and annualizes", () => {
+    // Mean 0.5%; downside √((0.01² + 0.02²) / 4) = √0.000125; 0.005 / 0.0111803 × √4 ≈ 0.894427
+    expect(sortinoRatio([0.02, -0.01, 0.03, -0.02], 4)).toBeCloseTo(0.894427191, 8)
+  })
+
+  test("counts returns below the risk-free rate as downside", () => {
+    // Excess over 1% per period: 1%, −1% → mean 0
+    expect(sortinoRatio([0.02, 0], 4, 0.04)).toBeCloseTo(0, 12)
+  })
+
+  test("is zero with no downside or no returns", () => {
+    expect(sortinoRatio([0.01, 0.02, 0.03], 252)).toBe(0)
+    expect(sortinoRatio([], 252)).toBe(0)
+  })
+})
+
+describe("equityStats", () => {
+  test("computes the headline statistics for a series", () => {
+    // Returns +10%, −10%, +10%: mean 1/30, sample stdev √(0.08/6), downside √(0.01/3)
+    const stats = equityStats([100, 110, 99, 108.9], 252)
+
+    expect(stats.periods).toBe(3)
+    expect(stats.totalReturn).toBeCloseTo(0.089, 12)
+    expect(stats.winRate).toBeCloseTo(2 / 3, 12)
+    expect(stats.annualizedVolatility).toBeCloseTo(Math.sqrt(0.08 / 6) * Math.sqrt(252), 9)
+    expect(stats.sharpe).toBeCloseTo((1 / 30) / Math.sqrt(0.08 / 6) * Math.sqrt(252), 9)
+    expect(stats.sortino).toBeCloseTo((1 / 30) / Math.sqrt(0.01 / 3) * Math.sqrt(252), 9)
+    expect(stats.maxDrawdown).toEqual({ depth: expect.closeTo(0.1, 12), peakIndex: 1, troughIndex: 2, recoveryIndex: null })
+    // Ties keep the first period; indexes point at the equity value ending the period
+    expect(stats.best?.index).toBe(1)
+    expect(stats.best?.return).toBeCloseTo(0.1, 12)
+    expect(stats.worst?.index).toBe(2)
+    expect(stats.worst?.return).toBeCloseTo(-0.1, 12)
+  })
+
+  test("skips periods starting from zero equity but keeps equity indexes", () => {
+    const stats = equityStats([0, 100, 110], 252)
+    expect(stats.periods).toBe(1)
+    expect(stats.best?.index).toBe(2)
+    expect(stats.totalReturn).toBeCloseTo(0.1, 12)
+  })
+
+  test("is empty for a series too short to have returns", () => {
+    const stats = equityStats([100], 252)
+    expect(stats).toMatchObject({ periods: 0, winRate: 0, sharpe: 0, sortino: 0, annualizedVolatility: 0, best: null, worst: null })
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * Portfolio analytics
+ * Return and risk statistics over equity series from portfolio history.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface Drawdown {
+  /** Largest peak-to-trough decline as a positive fraction (0.12 = 12%) */
+  depth: number
+  peakIndex: number
+  troughIndex: number
+  /** First index after the trough back at the peak's level, or null if not yet recovered */
+  recoveryIndex: number | null
+}
+
+export interface EquityStats {
+  totalReturn: number
+  annualizedVolatility: number
+  sharpe: number
+  sortino: number
+  maxDrawdown: Drawdown
+  /** Best and worst single-period returns with their index in the equity series */
+  best: { return: number; index: number } | null
+  worst: { return: number; index: number } | null
+  /** Share of periods with a positive return */
+  winRate: number
+  periods: number
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/** Bars per year for portfolio-history timeframes, assuming 252 sessions of 6.5 hours */
+export const PERIODS_PER_YEAR: Record<string, number> = {
+  "1Min": 252 * 390,
+  "5Min": 252 * 78,
+  "15Min": 252 * 26,
+  "1H": 252 * 6.5,
+  "1D": 252,
+}
+
+export function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0
+}
+
+/** Sample standard deviation */
+export function stdev(xs: number[]): number {
+  if (xs.length < 2) return 0
+  const m = mean(xs)
+  return Math.sqrt(xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1))
+}
+
+// ── Series ──────────────────────────────────────────────────
+
+/** Simple returns between consecutive points; periods starting from zero equity are skipped. */
+export function periodReturns(equity: number[]): number[] {
+  const out: number[] = []
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) out.push(equity[i] / equity[i - 1] - 1)
+  }
+  return out
+}
+
+export function totalReturn(equity: number[]): number {
+  const first = equity.find(v => v > 0)
+  const last = equity[equity.length - 1]
+  return first ? last / first - 1 : 0
+}
+
+export function annualizedVolatility(returns: number[], periodsPerYear: number): number {
+  return stdev(returns) * Math.sqrt(periodsPerYear)
+}
+
+export function maxDrawdown(equity: number[]): Drawdown {
+  let peakIndex = 0
+  const worst: Drawdown = { depth: 0, peakIndex: 0, troughIndex: 0, recoveryIndex: null }
+  for (let i = 0; i < equity.length; i++) {
+    if (equity[i] > equity[peakIndex]) peakIndex = i
+    const peak = equity[peakIndex]
+    const depth = peak > 0 ? 1 - equity[i] / peak : 0
+    if (depth > worst.depth) {
+      worst.depth = depth
+      worst.peakIndex = peakIndex
+      worst.troughIndex = i
+    }
+  }
+  if (worst.depth > 0) {
+    const peak = equity[worst.peakIndex]
+    for (let i = worst.troughIndex + 1; i < equity.length; i++) {
+      if (equity[i] >= peak) { worst.recoveryIndex = i; break }
+    }
+  }
+  return worst
+}
+
+/** Drawdown from the running peak at every point, as positive fractions */
+export function drawdownSeries(equity: number[]): number[] {
+  let peak = 0
+  return equity.map(v => {
+    peak = Math.max(peak, v)
+    return peak > 0 ? 1 - v / peak : 0
+  })
+}
+
+/** Annualized Sharpe ratio; riskFreeRate is an annual fraction */
+export function sharpeRatio(returns: number[], periodsPerYear: number, riskFreeRate = 0): number {
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear)
+  const sd = stdev(excess)
+  return sd ? (mean(excess) / sd) * Math.sqrt(periodsPerYear) : 0
+}
+
+/** Annualized Sortino ratio: like Sharpe, but only penalizing returns below the risk-free rate */
+export function sortinoRatio(returns: number[], periodsPerYear: number, riskFreeRate = 0): number {
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear)
+  if (excess.length === 0) return 0
+  const downside = Math.sqrt(excess.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / excess.length)
+  return downside ? (mean(excess) / downside) * Math.sqrt(periodsPerYear) : 0
+}
+
+/**
+ * All headline statistics for an equity series. Indexes in `best`/`worst`
+ * point at the equity value ending the period.
+ */
+export function equityStats(equity: number[], periodsPerYear: number, riskFreeRate = 0): EquityStats {
+  const returns: number[] = []
+  const endIndex: number[] = []
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) {
+      returns.push(equity[i] / equity[i - 1] - 1)
+      endIndex.push(i)
+    }
+  }
+
+  let best: EquityStats["best"] = null
+  let worst: EquityStats["worst"] = null
+  returns.forEach((r, i) => {
+    if (!best || r > best.return) best = { return: r, index: endIndex[i] }
+    if (!worst || r < worst.return) worst = { return: r, index: endIndex[i] }
+  })
+
+  return {
+    totalReturn: totalReturn(equity),
+    annualizedVolatility: annualizedVolatility(returns, periodsPerYear),
+    sharpe: sharpeRatio(returns, periodsPerYear, riskFreeRate),
+    sortino: sortinoRatio(returns, periodsPerYear, riskFreeRate),
+    maxDrawdown: maxDrawdown(equity),
+    best,
+    worst,
+    winRate: returns.length ? returns.filter(r => r > 0).length / returns.length : 0,
+    periods: returns.length,
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Asset tradability checks
+ * Rules Alpaca enforces per asset (tradable status, fractional shares,
+ * shorting, crypto minimums), checked before an order is submitted so the
+ * rejection explains itself instead of surfacing as a raw 422.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface AlpacaAsset {
+  id: string
+  class: string
+  exchange: string
+  symbol: string
+  name: string
+  status: "active" | "inactive"
+  tradable: boolean
+  marginable: boolean
+  shortable: boolean
+  easy_to_borrow: boolean
+  fractionable: boolean
+  maintenance_margin_requirement?: number
+  /** Crypto only: smallest order quantity, increment and price tick */
+  min_order_size?: string
+  min_trade_increment?: string
+  price_increment?: string
+  attributes?: string[]
+}
+
+export interface TradabilityOrder {
+  side: "buy" | "sell"
+  qty?: number
+  notional?: number
+  type?: string
+  timeInForce?: string
+  /** Signed quantity currently held; a sell beyond a long position opens a short */
+  heldQty: number
+}
+
+// ── Rules ───────────────────────────────────────────────────
+
+/** Returns why Alpaca would reject the order for this asset, or null if it passes. */
+export function checkTradability(asset: AlpacaAsset, order: TradabilityOrder): string | null {
+  if (asset.status !== "active" || !asset.tradable) {
+    return `${asset.symbol} is not tradable on Alpaca (status: ${asset.status})`
+  }
+
+  if (asset.class === "crypto") {
+    const min = asset.min_order_size ? parseFloat(asset.min_order_size) : 0
+    if (order.qty !== undefined && min > 0 && order.qty < min) {
+      return `${asset.symbol} minimum order size is ${asset.min_order_size}; ${order.qty} is below it`
+    }
+    if (order.side === "sell" && order.heldQty <= 0) {
+      return `${asset.symbol} cannot be sold short — crypto can only be sold from a long position`
+    }
+    return null
+  }
+
+  const fractional = order.notional !== undefined || (order.qty !== undefined && !Number.isInteger(order.qty))
+  if (fractional) {
+    if (!asset.fractionable) {
+      return `${asset.symbol} is not fractionable — use a whole-share qty instead of ${order.notional !== undefined ? "a notional amount" : order.qty}`
+    }
+    if (order.timeInForce && order.timeInForce !== "day") {
+      return `Fractional and notional orders must use time_in_force "day" (got "${order.timeInForce}")`
+    }
+  }
+
+  const opensShort = order.side === "sell" && order.qty !== undefined && order.qty > Math.max(order.heldQty, 0)
+  if (opensShort) {
+    if (fractional) return `Fractional orders cannot open a short position in ${asset.symbol}`
+    if (!asset.shortable) return `${asset.symbol} is not shortable on Alpaca`
+    if (!asset.easy_to_borrow) return `${asset.symbol} is hard to borrow; Alpaca does not accept new short sales in it`
+  }
+  return null
+}
+
+/** Yes/No flags for an asset's trading permissions */
+export function describeAsset(asset: AlpacaAsset): string[] {
+  const yn = (v: boolean) => v ? "Yes" : "No"
+  const lines = [
+    `${asset.symbol} — ${asset.name}`,
+    `  Class: ${asset.class} | Exchange: ${asset.exchange} | Status: ${asset.status}`,
+    `  Tradable: ${yn(asset.tradable)} | Fractionable: ${yn(asset.fractionable)} | Marginable: ${yn(asset.marginable)}`,
+    `  Shortable: ${yn(asset.shortable)} | Easy to borrow: ${yn(asset.easy_to_borrow)}`,
+  ]
+  if (asset.maintenance_margin_requirement !== undefined) {
+    lines.push(`  Maintenance margin: ${asset.maintenance_margin_requirement}%`)
+  }
+  if (asset.min_order_size) {
+    lines.push(`  Min order size: ${asset.min_order_size} | Qty increment: ${asset.min_trade_increment ?? "n/a"} | Price increment: ${asset.price_increment ?? "n/a"}`)
+  }
+  if (asset.attributes?.length) lines.push(`  Attributes: ${asset.attributes.join(", ")}`)
+  return lines
+}
@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test"
+import { readFileSync } from "node:fs"
+import { createStrategy, parseBarFile, runBacktest, type BacktestConfig, type Strategy } from "./backtest"
+
+// Eight daily bars: a climb from 100 to 107, a drop to 96 on 12 Jan, then a gap down to open at 90
+const csv = readFileSync(new URL("./fixtures/bars.csv", import.meta.url), "utf8")
+const bars = parseBarFile(csv)
+
+const config: BacktestConfig = {
+  initialCash: 10000,
+  commissionPerOrder: 0,
+  commissionBps: 0,
+  slippageBps: 0,
+  fractional: false,
+  positionFraction: 1,
+  periodsPerYear: 252,
+}
+
+/** Enters and exits on the bars given, with an optional stop this many dollars under the entry */
+function scripted(enterAt: number[], exitAt: number[] = [], stopDistance?: number): Strategy {
+  return {
+    name: "scripted",
+    decide(i, inPosition) {
+      if (!inPosition && enterAt.includes(i)) return "enter"
+      if (inPosition && exitAt.includes(i)) return "exit"
+      return null
+    },
+    stopPrice: stopDistance === undefined ? undefined : (_i, price) => price - stopDistance,
+  }
+}
+
+describe("parseBarFile", () => {
+  test("reads a CSV fixture", () => {
+    expect(bars).toHaveLength(8)
+    expect(bars[0]).toEqual({ t: "2026-01-05T05:00:00Z", o: 100, h: 101, l: 99, c: 100, v: 1000 })
+    expect(bars[7].t).toBe("2026-01-14T05:00:00Z")
+  })
+
+  test("reads a JSON fixture newest first and returns it oldest first", () => {
+    const json = readFileSync(new URL("./fixtures/bars.json", import.meta.url), "utf8")
+    expect(parseBarFile(json)).toEqual(bars)
+  })
+
+  test("accepts a bare JSON array and short CSV column names without volume", () => {
+    expect(parseBarFile(JSON.stringify([bars[1], bars[0]]))).toEqual([bars[0], bars[1]])
+    expect(parseBarFile("date,o,h,l,c\n2026-01-02,1,2,0.5,1.5\n\n")).toEqual([{ t: "2026-01-02", o: 1, h: 2, l: 0.5, c: 1.5, v: 0 }])
+  })
+
+  test("names a missing column", () => {
+    expect(() => parseBarFile("t,open,high,low\n2026-01-02,1,2,0.5")).toThrow("missing a c column")
+  })
+
+  test("rejects a CSV row with a missing or non-numeric price, naming its line", () => {
+    const header = "date,open,high,low,close,volume"
+    expect(() => parseBarFile(`${header}\n2026-01-02,1,2,0.5,1.5,100\n2026-01-05,1,2,,1.5,100`)).toThrow("line 3: l is missing or not a number")
+    expect(() => parseBarFile(`${header}\n2026-01-02,1,2,0.5,n/a,100`)).toThrow("line 2: c is missing or not a number")
+    expect(() => parseBarFile(`${header}\n2026-01-02,1,2,0.5`)).toThrow("line 2: c is missing")
+    expect(() => parseBarFile(`${header}\n,1,2,0.5,1.5,100`)).toThrow("line 2: missing time")
+  })
+
+  test("rejects a JSON bar without a numeric price, naming its index", () => {
+    expect(() => parseBarFile(JSON.stringify([bars[0], { ...bars[1], h: "103" }]))).toThrow("bar 1: h is missing or not a number")
+    expect(() => parseBarFile(JSON.stringify({ bars: [{ t: "2026-01-02", o: 1, h: 2, l: 0.5 }] }))).toThrow("bar 0: c is missing")
+  })
+})
+
+describe("runBacktest", () => {
+  test("fills a decision at the next bar's open", () => {
+    // Enter at the close of 5 Jan, exit at the close of 8 Jan
+    const result = runBacktest(bars, scripted([0], [3]), config)
+    const [trade] = result.trades
+
+    expect(result.trades).toHaveLength(1)
+    expect(trade).toMatchObject({
+      entryTime: "2026-01-06T05:00:00Z",
+      exitTime: "2026-01-09T05:00:00Z",
+      entryPrice: 101,
+      exitPrice: 106,
+      // floor(10000 / 101)
+      qty: 99,
+      pnl: 99 * 5,
+      bars: 3,
+      exitReason: "signal",
+    })
+    expect(result.stats.finalEquity).toBe(10495)
+    // Marked to the close while held: 1 + 99 × 102 on 6 Jan
+    expect(result.equity[1].value).toBe(10099)
+  })
+
+  test("applies slippage to both fills and flat plus percentage commissions", () => {
+    const result = runBacktest(bars, scripted([0], [3]), { ...config, slippageBps: 10, commissionPerOrder: 1, commissionBps: 5 })
+    const [trade] = result.trades
+
+    // Buy at 101 × 1.001; floor((10000 − 1) / (101.101 × 1.0005)) = 98 shares
+    expect(trade.entryPrice).toBeCloseTo(101.101, 9)
+    expect(trade.qty).toBe(98)
+    // Sell at 106 × 0.999
+    expect(trade.exitPrice).toBeCloseTo(105.894, 9)
+    // Fees: 1 + 98 × 101.101 × 0.0005 = 5.953949 and 1 + 98 × 105.894 × 0.0005 = 6.188806
+    expect(result.stats.commissions).toBeCloseTo(12.142755, 6)
+    // Proceeds 10371.423194 − cost 9913.851949
+    expect(trade.pnl).toBeCloseTo(457.571245, 6)
+    expect(result.stats.finalEquity).toBeCloseTo(10457.571245, 6)
+  })
+
+  test("fills a stop intrabar at the stop price", () => {
+    // Entry at 101 with a stop at 96; 12 Jan trades down to 95
+    const result = runBacktest(bars, scripted([0], [], 5), config)
+    expect(result.trades[0]).toMatchObject({ exitTime: "2026-01-12T05:00:00Z", exitPrice: 96, exitReason: "stop", pnl: -99 * 5 })
+  })
+
+  test("fills a stop at the open when the bar gaps through it", () => {
+    // Stop at 93: 12 Jan's low of 95 holds, 13 Jan opens at 90
+    const result = runBacktest(bars, scripted([0], [], 8), config)
+    expect(result.trades[0]).toMatchObject({ exitTime: "2026-01-13T05:00:00Z", exitPrice: 90, exitReason: "stop", pnl: -99 * 11 })
+  })
+
+  test("closes a position still open at the last bar's close", () => {
+    // Enter at the 13 Jan open of 90: floor(10000 / 90) = 111 shares
+    const result = runBacktest(bars, scripted([5]), config)
+
+    expect(result.trades[0]).toMatchObject({ entryPrice: 90, exitTime: "2026-01-14T05:00:00Z", exitPrice: 94, qty: 111, exitReason: "end" })
+    expect(result.stats.finalEquity).toBe(10000 + 111 * 4)
+    expect(result.equity[result.equity.length - 1].value).toBe(result.stats.finalEquity)
+  })
+
+  test("sizes in whole shares unless fractional is on", () => {
+    const small = { ...config, initialCash: 1000 }
+    expect(runBacktest(bars, scripted([0], [3]), small).trades[0].qty).toBe(9)
+    // floor(1000 / 101, 6 decimals)
+    expect(runBacktest(bars, scripted([0], [3]), { ...small, fractional: true }).trades[0].qty).toBe(9.90099)
+  })
+
+  test("starts the equity curve and stats at `from`", () => {
+    const result = runBacktest(bars, scripted([]), config, 2)
+
+    expect(result.equity).toHaveLength(6)
+    expect(result.equity[0].t).toBe("2026-01-07T05:00:00Z")
+    expect(result.stats).toMatchObject({ trades: 0, exposure: 0, finalEquity: 10000 })
+    // Open of 7 Jan to the last close
+    expect(result.stats.buyAndHoldReturn).toBeCloseTo(94 / 102 - 1, 12)
+  })
+
+  test("needs at least two bars after the warm-up", () => {
+    expect(() => runBacktest(bars, scripted([]), config, 7)).toThrow("At least two bars")
+  })
+})
+
+describe("createStrategy", () => {
+  test("rejects an SMA crossover whose fast period is not shorter", () => {
+    expect(() => createStrategy({ type: "sma_cross", fast: 5, slow: 5 }, bars)).toThrow("fast SMA period")
+  })
+
+  test("enters a breakout above the prior highs with an ATR stop from the signal bar", () => {
+    const strategy = createStrategy({ type: "breakout", lookback: 2, exitLookback: 2, atrPeriod: 2, atrStop: 1 }, bars)
+
+    // 7 Jan closes at 104, above the 103 high of the two bars before; 8 Jan's 105 only matches the prior 105
+    expect(strategy.decide(1, false)).toBeNull()
+    expect(strategy.decide(2, false)).toBe("enter")
+    expect(strategy.decide(3, false)).toBeNull()
+    // 12 Jan closes at 96, below the 103 low of the two bars before
+    expect(strategy.decide(5, true)).toBe("exit")
+    // True ranges 2, 3, 4: Wilder ATR(2) is 2.5 on 6 Jan and (2.5 + 4) / 2 = 3.25 on 7 Jan, the signal bar
+    expect(strategy.stopPrice!(3, 104)).toBeCloseTo(100.75, 12)
+  })
+})
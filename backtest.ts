@@ -0,0 +1,295 @@
+/**
+ * Backtester
+ * Replays bars through a rule-based, long-only strategy. Decisions are made
+ * on a bar's close and filled at the next bar's open; protective stops fill
+ * intrabar (or at the open on a gap through the stop). Commissions, slippage
+ * and fractional or whole-share sizing are modelled. Everything here is pure,
+ * so a run only needs bars — from the API, the local cache or a fixture file.
+ */
+
+import { equityStats, type EquityStats } from "./analytics"
+import { atr, rsi, sma, type OHLCV } from "./indicators"
+
+// ── Types ───────────────────────────────────────────────────
+
+export type StrategySpec =
+  | { type: "sma_cross"; fast: number; slow: number }
+  | { type: "rsi_reversion"; period: number; entry: number; exit: number }
+  | { type: "breakout"; lookback: number; exitLookback: number; atrPeriod: number; atrStop: number }
+
+export interface Strategy {
+  name: string
+  /** Decide at the close of bar i; the order fills at the next bar's open */
+  decide(i: number, inPosition: boolean): "enter" | "exit" | null
+  /** Protective stop for a position entered at bar i, or null for none */
+  stopPrice?(entryIndex: number, entryPrice: number): number | null
+}
+
+export interface BacktestConfig {
+  initialCash: number
+  /** Flat fee per order, in dollars */
+  commissionPerOrder: number
+  /** Fee as basis points of order value */
+  commissionBps: number
+  /** Adverse fill slippage in basis points */
+  slippageBps: number
+  /** Allow fractional shares; otherwise orders round down to whole shares */
+  fractional: boolean
+  /** Fraction of equity put into each entry (1 = all in) */
+  positionFraction: number
+  /** Bars per year, for annualizing */
+  periodsPerYear: number
+}
+
+export interface BacktestTrade {
+  entryTime: string
+  exitTime: string
+  entryPrice: number
+  exitPrice: number
+  qty: number
+  /** Net of commissions */
+  pnl: number
+  returnPct: number
+  bars: number
+  exitReason: "signal" | "stop" | "end"
+}
+
+export interface BacktestStats extends EquityStats {
+  finalEquity: number
+  trades: number
+  tradeWinRate: number
+  avgWin: number
+  avgLoss: number
+  /** Gross profit over gross loss; Infinity with no losing trades */
+  profitFactor: number
+  /** Share of bars with a position open */
+  exposure: number
+  commissions: number
+  buyAndHoldReturn: number
+}
+
+export interface BacktestResult {
+  strategy: string
+  equity: Array<{ t: string; value: number }>
+  trades: BacktestTrade[]
+  stats: BacktestStats
+}
+
+// ── Strategies ──────────────────────────────────────────────
+
+/** Bars the strategy needs before its first decision */
+export function strategyWarmup(spec: StrategySpec): number {
+  switch (spec.type) {
+    case "sma_cross": return spec.slow + 1
+    case "rsi_reversion": return spec.period * 3
+    case "breakout": return Math.max(spec.lookback, spec.exitLookback, spec.atrPeriod * 3) + 1
+  }
+}
+
+export function createStrategy(spec: StrategySpec, bars: OHLCV[]): Strategy {
+  const closes = bars.map(b => b.c)
+
+  switch (spec.type) {
+    case "sma_cross": {
+      if (spec.fast >= spec.slow) throw new Error("The fast SMA period must be shorter than the slow one.")
+      const fast = sma(closes, spec.fast)
+      const slow = sma(closes, spec.slow)
+      return {
+        name: `SMA ${spec.fast}/${spec.slow} crossover`,
+        decide(i, inPosition) {
+          if (i === 0 || Number.isNaN(slow[i - 1])) return null
+          if (!inPosition && fast[i - 1] <= slow[i - 1] && fast[i] > slow[i]) return "enter"
+          if (inPosition && fast[i - 1] >= slow[i - 1] && fast[i] < slow[i]) return "exit"
+          return null
+        },
+      }
+    }
+
+    case "rsi_reversion": {
+      const r = rsi(closes, spec.period)
+      return {
+        name: `RSI ${spec.period} mean reversion (buy < ${spec.entry}, sell > ${spec.exit})`,
+        decide(i, inPosition) {
+          if (Number.isNaN(r[i])) return null
+          if (!inPosition && r[i] < spec.entry) return "enter"
+          if (inPosition && r[i] > spec.exit) return "exit"
+          return null
+        },
+      }
+    }
+
+    case "breakout": {
+      const a = atr(bars, spec.atrPeriod)
+      const highest = (i: number, n: number) => Math.max(...bars.slice(i - n, i).map(b => b.h))
+      const lowest = (i: number, n: number) => Math.min(...bars.slice(i - n, i).map(b => b.l))
+      return {
+        name: `${spec.lookback}-bar breakout, ${spec.exitLookback}-bar exit, ${spec.atrStop} × ATR stop`,
+        decide(i, inPosition) {
+          if (i < Math.max(spec.lookback, spec.exitLookback)) return null
+          if (!inPosition && bars[i].c > highest(i, spec.lookback)) return "enter"
+          if (inPosition && bars[i].c < lowest(i, spec.exitLookback)) return "exit"
+          return null
+        },
+        // ATR as of the signal bar, the last one known before the entry fill
+        stopPrice(entryIndex, entryPrice) {
+          const atrAtSignal = a[entryIndex - 1]
+          return Number.isNaN(atrAtSignal) ? null : entryPrice - spec.atrStop * atrAtSignal
+        },
+      }
+    }
+  }
+}
+
+// ── Engine ──────────────────────────────────────────────────
+
+/**
+ * Runs the strategy over bars[from..]. Bars before `from` only warm up the
+ * strategy's indicators; the equity curve and stats start at `from`.
+ */
+export function runBacktest(bars: OHLCV[], strategy: Strategy, config: BacktestConfig, from = 0): BacktestResult {
+  if (bars.length - from < 2) throw new Error("At least two bars are needed to backtest.")
+
+  const slip = config.slippageBps / 10000
+  const commission = (value: number) => config.commissionPerOrder + value * config.commissionBps / 10000
+  const roundQty = (qty: number) => config.fractional ? Math.floor(qty * 1e6) / 1e6 : Math.floor(qty)
+
+  let cash = config.initialCash
+  let qty = 0
+  let entry: { index: number; price: number; cost: number; stop: number | null } | null = null
+  let pending: "enter" | "exit" | null = null
+  let commissions = 0
+  let barsInMarket = 0
+  const trades: BacktestTrade[] = []
+  const equity: BacktestResult["equity"] = []
+
+  const close = (i: number, rawPrice: number, reason: BacktestTrade["exitReason"]) => {
+    const price = rawPrice * (1 - slip)
+    const fee = commission(qty * price)
+    const proceeds = qty * price - fee
+    commissions += fee
+    cash += proceeds
+    trades.push({
+      entryTime: bars[entry!.index].t,
+      exitTime: bars[i].t,
+      entryPrice: entry!.price,
+      exitPrice: price,
+      qty,
+      pnl: proceeds - entry!.cost,
+      returnPct: (proceeds / entry!.cost - 1) * 100,
+      bars: i - entry!.index,
+      exitReason: reason,
+    })
+    qty = 0
+    entry = null
+  }
+
+  for (let i = from; i < bars.length; i++) {
+    const bar = bars[i]
+
+    if (pending === "enter" && !entry) {
+      const price = bar.o * (1 + slip)
+      const budget = cash * config.positionFraction
+      // Leave room for the commission on top of the shares
+      const size = roundQty((budget - config.commissionPerOrder) / (price * (1 + config.commissionBps / 10000)))
+      if (size > 0) {
+        const fee = commission(size * price)
+        qty = size
+        cash -= size * price + fee
+        commissions += fee
+        entry = { index: i, price, cost: size * price + fee, stop: null }
+        entry.stop = strategy.stopPrice?.(i, price) ?? null
+      }
+    } else if (pending === "exit" && entry) {
+      close(i, bar.o, "signal")
+    }
+    pending = null
+
+    if (entry?.stop != null && bar.l <= entry.stop) {
+      // A gap through the stop fills at the open, not the stop
+      close(i, Math.min(bar.o, entry.stop), "stop")
+    }
+
+    if (entry) barsInMarket++
+    equity.push({ t: bar.t, value: cash + qty * bar.c })
+    if (i < bars.length - 1) pending = strategy.decide(i, !!entry)
+  }
+
+  if (entry) {
+    close(bars.length - 1, bars[bars.length - 1].c, "end")
+    equity[equity.length - 1].value = cash
+  }
+
+  const wins = trades.filter(t => t.pnl > 0)
+  const losses = trades.filter(t => t.pnl <= 0)
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0)
+  const grossLoss = -losses.reduce((sum, t) => sum + t.pnl, 0)
+
+  return {
+    strategy: strategy.name,
+    equity,
+    trades,
+    stats: {
+      ...equityStats(equity.map(e => e.value), config.periodsPerYear),
+      finalEquity: cash,
+      trades: trades.length,
+      tradeWinRate: trades.length ? wins.length / trades.length : 0,
+      avgWin: wins.length ? grossProfit / wins.length : 0,
+      avgLoss: losses.length ? -grossLoss / losses.length : 0,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+      exposure: barsInMarket / (bars.length - from),
+      commissions,
+      buyAndHoldReturn: bars[bars.length - 1].c / bars[from].o - 1,
+    },
+  }
+}
+
+// ── Fixtures ────────────────────────────────────────────────
+
+/**
+ * Bars from a fixture file: a JSON array of Alpaca-style bars ({t, o, h, l, c, v})
+ * or a CSV with a header naming t/time/timestamp/date, open, high, low, close
+ * and volume columns. Returned oldest first. A bar with a missing time or a
+ * missing or non-numeric price is an error naming its line (CSV) or index (JSON).
+ */
+export function parseBarFile(text: string): OHLCV[] {
+  const trimmed = text.trim()
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed) as OHLCV[] | { bars: OHLCV[] }
+    const bars = Array.isArray(parsed) ? parsed : parsed.bars
+    if (!Array.isArray(bars)) throw new Error("Bar file has no bars array.")
+    return bars
+      .map((b, i) => checkBar({ t: b.t, o: b.o, h: b.h, l: b.l, c: b.c, v: b.v ?? 0 }, `bar ${i}`))
+      .sort((a, b) => a.t.localeCompare(b.t))
+  }
+
+  const [header, ...rows] = trimmed.split(/\r?\n/)
+  const cols = header.split(",").map(c => c.trim().toLowerCase())
+  const col = (...names: string[]) => {
+    const i = cols.findIndex(c => names.includes(c))
+    if (i < 0) throw new Error(`Bar file is missing a ${names[0]} column.`)
+    return i
+  }
+  const [t, o, h, l, c] = [col("t", "time", "timestamp", "date"), col("o", "open"), col("h", "high"), col("l", "low"), col("c", "close")]
+  const v = cols.findIndex(name => name === "v" || name === "volume")
+  const num = (field: string | undefined) => field?.trim() ? Number(field) : NaN
+  return rows
+    // Line numbers count the header as line 1
+    .map((row, i) => ({ row, line: i + 2 }))
+    .filter(({ row }) => row.trim())
+    .map(({ row, line }) => {
+      const f = row.split(",")
+      const bar = { t: f[t]?.trim() ?? "", o: num(f[o]), h: num(f[h]), l: num(f[l]), c: num(f[c]), v: v >= 0 && f[v]?.trim() ? Number(f[v]) : 0 }
+      return checkBar(bar, `line ${line}`)
+    })
+    .sort((a, b) => a.t.localeCompare(b.t))
+}
+
+function checkBar(bar: OHLCV, where: string): OHLCV {
+  if (typeof bar.t !== "string" || !bar.t) throw new Error(`Bar file ${where}: missing time.`)
+  for (const key of ["o", "h", "l", "c", "v"] as const) {
+    if (typeof bar[key] !== "number" || !Number.isFinite(bar[key])) {
+      throw new Error(`Bar file ${where}: ${key} is missing or not a number.`)
+    }
+  }
+  return bar
+}
@@ -0,0 +1,71 @@
+import { Database } from "bun:sqlite"
+import { describe, expect, test } from "bun:test"
+import { BarCache, loadBars, type BarAdjustment, type StoredBar } from "./bars"
+
+function bar(day: string, close: number): StoredBar {
+  return { t: `${day}T05:00:00Z`, o: close, h: close, l: close, c: close, v: 1000, n: 10, vw: close }
+}
+
+/** Daily bars for 5–7 Jan 2026 at `scale` × 100, 101, 102, recording every fetch */
+function fakeFetcher(scale: () => number) {
+  const calls: Array<[string, string]> = []
+  const fetch = async (start: string, end: string) => {
+    calls.push([start, end])
+    return [bar("2026-01-05", 100), bar("2026-01-06", 101), bar("2026-01-07", 102)]
+      .filter(b => b.t.slice(0, 10) >= start.slice(0, 10) && b.t.slice(0, 10) <= end.slice(0, 10))
+      .map(b => ({ ...b, c: b.c * scale() }))
+  }
+  return { calls, fetch }
+}
+
+const request = (adjustment: BarAdjustment) => ({ symbol: "AAPL", timeframe: "1Day", adjustment, start: "2026-01-05", end: "2026-01-07" })
+
+describe("loadBars", () => {
+  test("serves completed days from the cache after the first fetch", async () => {
+    const cache = new BarCache(new Database(":memory:"))
+    const { calls, fetch } = fakeFetcher(() => 1)
+    const now = new Date("2026-01-10T12:00:00Z")
+
+    const first = await loadBars(request("raw"), fetch, cache, now)
+    const second = await loadBars(request("raw"), fetch, cache, now)
+
+    expect(first.map(b => b.c)).toEqual([100, 101, 102])
+    expect(second).toEqual(first)
+    expect(calls).toHaveLength(1)
+  })
+
+  test("keeps raw bars across days", async () => {
+    const cache = new BarCache(new Database(":memory:"))
+    const { calls, fetch } = fakeFetcher(() => 1)
+
+    await loadBars(request("raw"), fetch, cache, new Date("2026-01-10T12:00:00Z"))
+    await loadBars(request("raw"), fetch, cache, new Date("2026-01-12T12:00:00Z"))
+
+    expect(calls).toHaveLength(1)
+  })
+
+  test("refetches adjusted bars cached on an earlier day", async () => {
+    const cache = new BarCache(new Database(":memory:"))
+    let scale = 1
+    const { calls, fetch } = fakeFetcher(() => scale)
+
+    await loadBars(request("split"), fetch, cache, new Date("2026-01-10T12:00:00Z"))
+    await loadBars(request("split"), fetch, cache, new Date("2026-01-10T20:00:00Z"))
+    expect(calls).toHaveLength(1)
+
+    // A 2-for-1 split halves every adjusted price before it
+    scale = 0.5
+    const after = await loadBars(request("split"), fetch, cache, new Date("2026-01-11T12:00:00Z"))
+
+    expect(calls).toHaveLength(2)
+    expect(after.map(b => b.c)).toEqual([50, 50.5, 51])
+  })
+
+  test("fetches the whole range directly without a cache", async () => {
+    const { calls, fetch } = fakeFetcher(() => 1)
+    const bars = await loadBars(request("all"), fetch, null, new Date("2026-01-10T12:00:00Z"))
+
+    expect(bars).toHaveLength(3)
+    expect(calls).toEqual([["2026-01-05", "2026-01-07"]])
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Historical bar cache
+ * Completed bars stored in the plugin database, keyed by symbol, timeframe,
+ * adjustment and UTC date. A date is cached once every bar on it has been
+ * fetched, including dates with no bars at all (weekends, holidays), so
+ * repeat queries only hit the API for dates never seen before and for today.
+ * Raw bars never change once a day is over; split- and dividend-adjusted bars
+ * are rewritten by every later corporate action, so they are kept only for
+ * the UTC day they were fetched on.
+ */
+
+import type { SqlDatabase } from "./db"
+
+// ── Types ───────────────────────────────────────────────────
+
+export type BarAdjustment = "raw" | "split" | "dividend" | "all"
+
+export interface StoredBar {
+  t: string
+  o: number
+  h: number
+  l: number
+  c: number
+  v: number
+  n: number
+  vw: number
+}
+
+export interface BarKey {
+  symbol: string
+  timeframe: string
+  adjustment: BarAdjustment
+}
+
+export interface BarRequest extends BarKey {
+  /** ISO date or timestamp */
+  start: string
+  /** ISO date or timestamp, inclusive; defaults to now */
+  end?: string
+}
+
+/** Fetches every bar between two ISO timestamps (inclusive), oldest first */
+export type BarRangeFetcher = (start: string, end: string) => Promise<StoredBar[]>
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const DAY_MS = 86400000
+
+/** Weekly and monthly bars span several dates, so they can't be cached by date. */
+export function isCacheableTimeframe(timeframe: string): boolean {
+  return /^\d+(Min|T|Hour|H|Day|D)$/.test(timeframe)
+}
+
+/** Every UTC date from start to end inclusive, as YYYY-MM-DD */
+export function utcDays(startDay: string, endDay: string): string[] {
+  const days: string[] = []
+  for (let ms = Date.parse(`${startDay}T00:00:00Z`); ms <= Date.parse(`${endDay}T00:00:00Z`); ms += DAY_MS) {
+    days.push(new Date(ms).toISOString().slice(0, 10))
+  }
+  return days
+}
+
+/** Groups sorted dates into runs of consecutive days */
+function consecutiveRuns(days: string[]): string[][] {
+  const runs: string[][] = []
+  for (const day of days) {
+    const run = runs[runs.length - 1]
+    if (run && Date.parse(`${day}T00:00:00Z`) - Date.parse(`${run[run.length - 1]}T00:00:00Z`) === DAY_MS) run.push(day)
+    else runs.push([day])
+  }
+  return runs
+}
+
+/** Bounds in epoch ms; a bare end date covers that whole day */
+function rangeMs(start: string, end: string): [number, number] {
+  const endMs = end.length === 10 ? Date.parse(`${end}T00:00:00Z`) + DAY_MS - 1 : Date.parse(end)
+  return [Date.parse(start.length === 10 ? `${start}T00:00:00Z` : start), endMs]
+}
+
+// ── Store ───────────────────────────────────────────────────
+
+export class BarCache {
+  private db: SqlDatabase
+
+  constructor(db: SqlDatabase) {
+    this.db = db
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alpaca_bar_cache (
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        adjustment TEXT NOT NULL,
+        day TEXT NOT NULL,
+        t TEXT NOT NULL,
+        o REAL NOT NULL,
+        h REAL NOT NULL,
+        l REAL NOT NULL,
+        c REAL NOT NULL,
+        v REAL NOT NULL,
+        n INTEGER NOT NULL,
+        vw REAL NOT NULL,
+        PRIMARY KEY (symbol, timeframe, adjustment, t)
+      )
+    `)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alpaca_bar_cache_days (
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        adjustment TEXT NOT NULL,
+        day TEXT NOT NULL,
+        PRIMARY KEY (symbol, timeframe, adjustment, day)
+      )
+    `)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alpaca_bar_cache_as_of (
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        adjustment TEXT NOT NULL,
+        day TEXT NOT NULL,
+        PRIMARY KEY (symbol, timeframe, adjustment)
+      )
+    `)
+  }
+
+  /**
+   * Drops adjusted bars fetched before `today` (UTC). A split or dividend
+   * rescales all history before it, so adjusted bars from an earlier fetch
+   * may no longer line up with newly fetched ones. Raw bars are kept.
+   */
+  expireAdjusted(key: BarKey, today: string): void {
+    if (key.adjustment === "raw") return
+    const asOf = this.db.query(`
+      SELECT day FROM alpaca_bar_cache_as_of WHERE symbol = ? AND timeframe = ? AND adjustment = ?
+    `).get(key.symbol, key.timeframe, key.adjustment) as { day: string } | null
+    if (asOf?.day === today) return
+
+    this.db.exec("BEGIN")
+    try {
+      for (const table of ["alpaca_bar_cache", "alpaca_bar_cache_days"]) {
+        this.db.query(`DELETE FROM ${table} WHERE symbol = ? AND timeframe = ? AND adjustment = ?`)
+          .run(key.symbol, key.timeframe, key.adjustment)
+      }
+      this.db.query(`
+        INSERT OR REPLACE INTO alpaca_bar_cache_as_of (symbol, timeframe, adjustment, day) VALUES (?, ?, ?, ?)
+      `).run(key.symbol, key.timeframe, key.adjustment, today)
+      this.db.exec("COMMIT")
+    } catch (e) {
+      this.db.exec("ROLLBACK")
+      throw e
+    }
+  }
+
+  coveredDays(key: BarKey, startDay: string, endDay: string): Set<string> {
+    const rows = this.db.query(`
+      SELECT day FROM alpaca_bar_cache_days
+      WHERE symbol = ? AND timeframe = ? AND adjustment = ? AND day BETWEEN ? AND ?
+    `).all(key.symbol, key.timeframe, key.adjustment, startDay, endDay) as Array<{ day: string }>
+    return new Set(rows.map(r => r.day))
+  }
+
+  bars(key: BarKey, startDay: string, endDay: string): StoredBar[] {
+    return this.db.query(`
+      SELECT t, o, h, l, c, v, n, vw FROM alpaca_bar_cache
+      WHERE symbol = ? AND timeframe = ? AND adjustment = ? AND day BETWEEN ? AND ?
+      ORDER BY t
+    `).all(key.symbol, key.timeframe, key.adjustment, startDay, endDay) as StoredBar[]
+  }
+
+  /** Saves the bars fetched for `days` and marks those days complete. */
+  store(key: BarKey, days: string[], bars: StoredBar[]): void {
+    const insertBar = this.db.query(`
+      INSERT OR REPLACE INTO alpaca_bar_cache (symbol, timeframe, adjustment, day, t, o, h, l, c, v, n, vw)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertDay = this.db.query(`
+      INSERT OR IGNORE INTO alpaca_bar_cache_days (symbol, timeframe, adjustment, day) VALUES (?, ?, ?, ?)
+    `)
+    this.db.exec("BEGIN")
+    try {
+      for (const b of bars) {
+        const day = new Date(b.t).toISOString().slice(0, 10)
+        insertBar.run(key.symbol, key.timeframe, key.adjustment, day, b.t, b.o, b.h, b.l, b.c, b.v, b.n ?? 0, b.vw ?? 0)
+      }
+      for (const day of days) insertDay.run(key.symbol, key.timeframe, key.adjustment, day)
+      this.db.exec("COMMIT")
+    } catch (e) {
+      this.db.exec("ROLLBACK")
+      throw e
+    }
+  }
+}
+
+// ── Loading ─────────────────────────────────────────────────
+
+/**
+ * All bars in the requested range, oldest first. Completed dates come from the
+ * cache, fetching and storing any that are missing; today (UTC) is always
+ * fetched fresh and never stored, and adjusted bars cached on an earlier day
+ * are fetched again. Without a cache, or for timeframes that
+ * can't be cached, the whole range is fetched directly.
+ */
+export async function loadBars(req: BarRequest, fetchRange: BarRangeFetcher, cache: BarCache | null, now = new Date()): Promise<StoredBar[]> {
+  const end = req.end ?? now.toISOString()
+  if (!cache || !isCacheableTimeframe(req.timeframe)) return fetchRange(req.start, end)
+
+  const [startMs, endMs] = rangeMs(req.start, end)
+  const today = now.toISOString().slice(0, 10)
+  const startDay = new Date(startMs).toISOString().slice(0, 10)
+  const endDay = new Date(endMs).toISOString().slice(0, 10)
+  const lastComplete = new Date(Date.parse(`${today}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10)
+
+  const bars: StoredBar[] = []
+  if (startDay <= lastComplete) {
+    cache.expireAdjusted(req, today)
+    const cacheEnd = endDay < lastComplete ? endDay : lastComplete
+    const covered = cache.coveredDays(req, startDay, cacheEnd)
+    const missing = utcDays(startDay, cacheEnd).filter(d => !covered.has(d))
+    for (const run of consecutiveRuns(missing)) {
+      const fetched = await fetchRange(`${run[0]}T00:00:00Z`, `${run[run.length - 1]}T23:59:59Z`)
+      cache.store(req, run, fetched)
+    }
+    bars.push(...cache.bars(req, startDay, cacheEnd))
+  }
+  if (endDay >= today) {
+    const liveStart = startDay >= today ? req.start : `${today}T00:00:00Z`
+    bars.push(...await fetchRange(liveStart, end))
+  }
+
+  return bars.filter(b => {
+    const ms = Date.parse(b.t)
+    return ms >= startMs && ms <= endMs
+  })
+}
@@ -0,0 +1,118 @@
+/**
+ * Trading calendar
+ * Trading-day arithmetic over Alpaca's market calendar: which dates are
+ * sessions, early closes and holidays, and counting or stepping N sessions
+ * from a date. Dates are YYYY-MM-DD strings in exchange (New York) time.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface CalendarDay {
+  date: string
+  /** Regular session open and close, "HH:MM" New York time */
+  open: string
+  close: string
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const DAY_MS = 86400000
+
+/** A regular session closes at 16:00; anything earlier is a shortened day */
+const REGULAR_CLOSE = "16:00"
+
+export function addCalendarDays(date: string, n: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + n * DAY_MS).toISOString().slice(0, 10)
+}
+
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return day === 0 || day === 6
+}
+
+/** Today's date on the exchange's clock */
+export function exchangeToday(now = new Date()): string {
+  return now.toLocaleDateString("en-CA", { timeZone: "America/New_York" })
+}
+
+/** Calendar days from `from` to `to` (negative when `to` is earlier) */
+export function calendarDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+/** Expiration date encoded in an OCC option symbol (YYYY-MM-DD), or null for non-options */
+export function optionExpiration(symbol: string): string | null {
+  const m = /^[A-Z.]{1,6}(\d{2})(\d{2})(\d{2})[CP]\d{8}$/.exec(symbol.toUpperCase())
+  return m ? `20${m[1]}-${m[2]}-${m[3]}` : null
+}
+
+// ── Calendar ────────────────────────────────────────────────
+
+export class TradingCalendar {
+  readonly days: CalendarDay[]
+  private index = new Map<string, number>()
+
+  constructor(days: CalendarDay[]) {
+    this.days = [...days].sort((a, b) => a.date.localeCompare(b.date))
+    this.days.forEach((d, i) => this.index.set(d.date, i))
+  }
+
+  get first(): string | undefined { return this.days[0]?.date }
+  get last(): string | undefined { return this.days[this.days.length - 1]?.date }
+
+  /** Whether the calendar has data for the date; answers outside it would be guesses */
+  covers(date: string): boolean {
+    return !!this.first && !!this.last && date >= this.first && date <= this.last
+  }
+
+  day(date: string): CalendarDay | undefined {
+    const i = this.index.get(date)
+    return i === undefined ? undefined : this.days[i]
+  }
+
+  isTradingDay(date: string): boolean {
+    return this.index.has(date)
+  }
+
+  isEarlyClose(day: CalendarDay): boolean {
+    return day.close < REGULAR_CLOSE
+  }
+
+  /** Sessions from start to end inclusive */
+  between(start: string, end: string): CalendarDay[] {
+    return this.days.filter(d => d.date >= start && d.date <= end)
+  }
+
+  /** Weekdays in the range with no session */
+  holidays(start: string, end: string): string[] {
+    const out: string[] = []
+    for (let d = start; d <= end; d = addCalendarDays(d, 1)) {
+      if (!isWeekend(d) && !this.isTradingDay(d) && this.covers(d)) out.push(d)
+    }
+    return out
+  }
+
+  /** First session strictly after (n > 0) or before (n < 0) the date, stepping |n| sessions; n = 0 returns the date if it is a session */
+  offset(date: string, n: number): string | null {
+    if (n === 0) return this.isTradingDay(date) ? date : null
+    // Position of the date among sessions: sessions at or before it when stepping forward, strictly before when stepping back
+    let lo = 0
+    let hi = this.days.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (this.days[mid].date <= date) lo = mid + 1
+      else hi = mid
+    }
+    const target = n > 0 ? lo - 1 + n : (this.isTradingDay(date) ? lo - 1 : lo) + n
+    return target >= 0 && target < this.days.length ? this.days[target].date : null
+  }
+
+  next(date: string): string | null { return this.offset(date, 1) }
+  previous(date: string): string | null { return this.offset(date, -1) }
+
+  /** Sessions after `from` up to and including `to`; negative when `to` is earlier */
+  count(from: string, to: string): number {
+    if (to < from) return -this.count(to, from)
+    return this.days.filter(d => d.date > from && d.date <= to).length
+  }
+}
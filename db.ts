@@ -0,0 +1,26 @@
+/**
+ * Plugin database access
+ * The host hands out its SQLite handle as `unknown` from ctx.getDb(); this is
+ * the slice of the bun:sqlite Database API the plugin's stores rely on.
+ */
+
+export type SqlValue = string | number | bigint | boolean | null
+
+export interface SqlStatement {
+  all(...params: SqlValue[]): unknown[]
+  get(...params: SqlValue[]): unknown
+  run(...params: SqlValue[]): unknown
+}
+
+export interface SqlDatabase {
+  exec(sql: string): void
+  query(sql: string): SqlStatement
+}
+
+export function asSqlDatabase(db: unknown): SqlDatabase {
+  const candidate = db as Partial<SqlDatabase> | null
+  if (!candidate || typeof candidate.query !== "function" || typeof candidate.exec !== "function") {
+    throw new Error("Plugin database is not available.")
+  }
+  return candidate as SqlDatabase
+}
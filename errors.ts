@@ -0,0 +1,212 @@
+/**
+ * Alpaca errors
+ * Turns Alpaca's error responses ({"code": 40310000, "message": "..."}) into
+ * typed errors for the failures users actually hit, each with a plain
+ * explanation and a suggested fix.
+ */
+
+import { TimeoutError } from "./http"
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface AlpacaErrorInfo {
+  status: number
+  /** Raw response body */
+  body: string
+  api: "trading" | "data"
+  method: string
+  path: string
+  /** Which account's keys made the request */
+  account?: "paper" | "live"
+}
+
+// ── Base class ──────────────────────────────────────────────
+
+export class AlpacaError extends Error {
+  readonly status: number
+  /** Alpaca's eight-digit error code, when the body has one */
+  readonly code: number | null
+  /** Alpaca's own message, or the raw body when it is not JSON */
+  readonly apiMessage: string
+  /** Any other fields in the error body, e.g. buying_power and cost_basis */
+  readonly details: Record<string, unknown>
+  readonly api: "trading" | "data"
+  readonly path: string
+  readonly account: "paper" | "live" | null
+
+  constructor(info: AlpacaErrorInfo) {
+    let parsed: Record<string, unknown> = {}
+    try {
+      const json = JSON.parse(info.body)
+      if (json && typeof json === "object") parsed = json as Record<string, unknown>
+    } catch { /* not JSON */ }
+    const { code, message, ...details } = parsed
+    const apiMessage = typeof message === "string" && message ? message : info.body.trim() || `HTTP ${info.status}`
+
+    super(`Alpaca${info.api === "data" ? " Data" : ""} ${info.status}: ${apiMessage}`)
+    this.name = new.target.name
+    this.status = info.status
+    this.code = typeof code === "number" ? code : null
+    this.apiMessage = apiMessage
+    this.details = details
+    this.api = info.api
+    this.path = info.path
+    this.account = info.account ?? null
+  }
+
+  /** Short headline, e.g. "Insufficient buying power" */
+  get title(): string {
+    return this.status >= 500 ? "Alpaca server error" : "Alpaca rejected the request"
+  }
+
+  /** What to do about it, or null when there is nothing specific to suggest */
+  get hint(): string | null {
+    return this.status >= 500 ? "Alpaca had an internal problem; try again in a moment and check status.alpaca.markets if it persists." : null
+  }
+
+  /** The explanation shown to the user: what happened, how to fix it, and Alpaca's status and code */
+  explain(): string {
+    const account = this.account ? ` [${this.account.toUpperCase()}]` : ""
+    return [
+      `${this.title}${account}: ${this.apiMessage}`,
+      this.hint ? `Fix: ${this.hint}` : null,
+      `(Alpaca ${this.status}${this.code ? `, code ${this.code}` : ""})`,
+    ].filter(Boolean).join("\n")
+  }
+}
+
+// ── Credentials & limits ────────────────────────────────────
+
+export class UnauthorizedError extends AlpacaError {
+  get title() { return "Alpaca credentials rejected" }
+  get hint() {
+    const prefix = this.account ?? "paper/live"
+    return `Check the ${prefix}ApiKey and ${prefix}SecretKey settings. Keys may be mistyped or regenerated, and paper keys only work with the paper API (live keys with live).`
+  }
+}
+
+export class ForbiddenError extends AlpacaError {
+  get title() { return "Not permitted for this account" }
+  get hint() {
+    return this.api === "data"
+      ? "The market data subscription does not cover this request (e.g. recent SIP data on the free plan). Use older data, the IEX feed, or upgrade the data plan."
+      : "The keys are valid but the account is not enabled for this — check its options level, crypto and margin permissions in the Alpaca dashboard, and that the account is active."
+  }
+}
+
+export class RateLimitError extends AlpacaError {
+  get title() { return "Alpaca rate limit reached" }
+  get hint() { return "Alpaca allows about 200 requests a minute per account. Wait a minute before retrying, and fetch symbols in batches rather than one call each." }
+}
+
+// ── Not found ───────────────────────────────────────────────
+
+export class NotFoundError extends AlpacaError {
+  get title() { return "Not found" }
+  get hint() { return "The ID or symbol may be wrong, or the order or position is already closed. List what exists with alpaca_orders or alpaca_positions." }
+}
+
+export class SymbolNotFoundError extends NotFoundError {
+  get title() { return "Unknown symbol" }
+  get hint() { return "Check the ticker with alpaca_asset (it can search by name). Crypto pairs are written like BTC/USD, and options use OCC contract symbols." }
+}
+
+// ── Order rejections ────────────────────────────────────────
+
+export class OrderRejectedError extends AlpacaError {
+  get title() { return "Order rejected" }
+}
+
+export class InsufficientBuyingPowerError extends OrderRejectedError {
+  get title() { return "Insufficient buying power" }
+  get hint() {
+    const num = (key: string) => {
+      const v = Number(this.details[key])
+      return Number.isFinite(v) ? `$${v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : null
+    }
+    const needed = num("cost_basis")
+    const available = num("buying_power")
+    const amounts = needed && available ? `The order needs ${needed} but only ${available} is available. ` : ""
+    return `${amounts}Reduce the qty or notional, cancel open orders that hold buying power, or check alpaca_account. Shorts and options draw on margin buying power.`
+  }
+}
+
+export class PatternDayTraderError extends OrderRejectedError {
+  get title() { return "Pattern day trading protection" }
+  get hint() { return "Accounts under $25,000 equity may make at most 3 day trades in 5 trading days, and this order would exceed that. Hold the position overnight, wait for older day trades to leave the 5-day window, or bring equity above $25,000. Paper accounts enforce the same rule." }
+}
+
+export class MarketClosedError extends OrderRejectedError {
+  get title() { return "Market closed" }
+  get hint() { return "Check the session with alpaca_market_clock. Submit when the market opens, use a limit order with extended_hours for pre- and post-market stock trading, or time_in_force opg/cls for the auctions. Crypto trades around the clock." }
+}
+
+export class WashTradeError extends OrderRejectedError {
+  get title() { return "Potential wash trade" }
+  get hint() { return "An open order on the opposite side of the same symbol could fill against this one. Cancel that order first, or place both sides together as a bracket or OCO order." }
+}
+
+// ── Plugin errors ───────────────────────────────────────────
+
+/** No API keys are set for the account a call needs */
+export class CredentialsNotConfiguredError extends Error {
+  constructor(mode: "paper" | "live") {
+    super(`${mode.toUpperCase()} trading credentials not configured. Set them in plugin settings.`)
+    this.name = "CredentialsNotConfiguredError"
+  }
+}
+
+// ── Classification ──────────────────────────────────────────
+
+/** Picks the most specific error class for a failed response, from Alpaca's message first and the status second. */
+export function createAlpacaError(info: AlpacaErrorInfo): AlpacaError {
+  const base = new AlpacaError(info)
+  const msg = base.apiMessage.toLowerCase()
+
+  if (info.status === 429) return new RateLimitError(info)
+  if (info.status === 401) return new UnauthorizedError(info)
+  if (/pattern day trad|\bpdt\b/.test(msg)) return new PatternDayTraderError(info)
+  if (/wash trade/.test(msg)) return new WashTradeError(info)
+  if (/insufficient (day trading |options |non.?marginable )?buying power|insufficient (balance|funds)/.test(msg)) return new InsufficientBuyingPowerError(info)
+  if (/market (is )?(currently )?closed|(only|not) (allowed|accepted) (during|outside)|outside (of )?(regular |market )?(trading )?hours/.test(msg)) return new MarketClosedError(info)
+  if (/(asset|symbol)\b.*\bnot found|could not find (asset|symbol)|(invalid|unknown) symbol/.test(msg)
+    || (info.status === 404 && info.path.startsWith("/v2/assets/"))) {
+    return new SymbolNotFoundError(info)
+  }
+  if (info.status === 404) return new NotFoundError(info)
+  // Bad keys draw a bare 403 "forbidden." on some endpoints rather than a 401
+  if (info.status === 403 && /^(forbidden|unauthori[sz]ed|request is not authori[sz]ed)\.?$/.test(msg)) return new UnauthorizedError(info)
+  const submitting = (info.method === "POST" || info.method === "PATCH") && info.path.startsWith("/v2/orders")
+  if (submitting && (info.status === 403 || info.status === 422)) return new OrderRejectedError(info)
+  if (info.status === 403) return new ForbiddenError(info)
+  return base
+}
+
+// ── Rendering ───────────────────────────────────────────────
+
+/** Full explanation for a tool result: typed Alpaca errors get their fix, everything else its message */
+export function explainError(e: unknown): string {
+  if (e instanceof AlpacaError) return e.explain()
+  if (e instanceof TimeoutError) return `${e.message}\nFix: Alpaca did not answer in time after several attempts. Try again shortly; if an order was being placed, check alpaca_orders before resubmitting.`
+  return e instanceof Error ? e.message : String(e)
+}
+
+/** One line, for lists and logs where a full explanation would not fit */
+export function summarizeError(e: unknown): string {
+  if (e instanceof AlpacaError) return `${e.title}: ${e.apiMessage}`
+  return e instanceof Error ? e.message : String(e)
+}
+
+/** HTTP status for a route to answer with: Alpaca's own 4xx, 502 for upstream failures, 504 for timeouts, 503 without credentials */
+export function httpStatusFor(e: unknown): number {
+  if (e instanceof AlpacaError) return e.status < 500 ? e.status : 502
+  if (e instanceof TimeoutError) return 504
+  if (e instanceof CredentialsNotConfiguredError) return 503
+  return 500
+}
+
+/** JSON body for a failed route: the one-line error plus Alpaca's code and the suggested fix */
+export function errorBody(e: unknown): { error: string; code?: number | null; hint?: string | null } {
+  if (e instanceof AlpacaError) return { error: summarizeError(e), code: e.code, hint: e.hint }
+  return { error: summarizeError(e) }
+}
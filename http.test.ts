@@ -0,0 +1,192 @@
+import { describe, expect, test } from "bun:test"
+import { HttpClient, RateLimiter, TimeoutError, type HttpClientOptions, type HttpRequest, type Transport } from "./http"
+import { AlpacaClient } from "./index"
+
+// ── Stand-in transport ──────────────────────────────────────
+
+type Call = { method: string; url: string; body?: string }
+
+/** Answers each request with the next scripted response, recording what was sent */
+function scripted(...responses: Array<Response | ((call: Call) => Response | Promise<Response>)>) {
+  const calls: Call[] = []
+  const transport: Transport = async (url, init) => {
+    const call = { method: init.method as string, url, body: init.body as string | undefined }
+    calls.push(call)
+    const next = responses.shift()
+    if (!next) throw new Error(`unexpected request: ${call.method} ${url}`)
+    return typeof next === "function" ? next(call) : next
+  }
+  return { calls, transport }
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } })
+}
+
+/** A frozen clock and a sleep that returns at once, recording every wait */
+function clock(now = 1_000_000) {
+  const sleeps: number[] = []
+  return {
+    sleeps,
+    hooks: { now: () => now, sleep: async (ms: number) => { sleeps.push(ms) }, random: () => 0.5 } satisfies HttpClientOptions,
+  }
+}
+
+const get: HttpRequest = { method: "GET", url: "https://api.test/v2/account", headers: {} }
+const post: HttpRequest = { method: "POST", url: "https://api.test/v2/orders", headers: {}, body: "{}" }
+
+// ── HttpClient ──────────────────────────────────────────────
+
+describe("HttpClient", () => {
+  test("waits out a 429 for the Retry-After delay", async () => {
+    const { calls, transport } = scripted(json({}, 429, { "Retry-After": "2" }), json({ ok: true }))
+    const { sleeps, hooks } = clock()
+    const res = await new HttpClient({ transport, ...hooks }).request(post, { retryable: false })
+
+    expect(res.status).toBe(200)
+    expect(calls).toHaveLength(2)
+    expect(sleeps).toEqual([2000])
+  })
+
+  test("retries a 5xx on a GET with jittered backoff", async () => {
+    const { calls, transport } = scripted(json({}, 503), json({}, 502), json({ ok: true }))
+    const { sleeps, hooks } = clock()
+    const res = await new HttpClient({ transport, ...hooks }).request(get, { retryable: true })
+
+    expect(res.status).toBe(200)
+    expect(calls).toHaveLength(3)
+    // Half (random 0.5) of 250ms, then of 500ms
+    expect(sleeps).toEqual([125, 250])
+  })
+
+  test("returns a 5xx on a request that is not safe to repeat", async () => {
+    const { calls, transport } = scripted(json({ message: "internal error" }, 500))
+    const { sleeps, hooks } = clock()
+    const res = await new HttpClient({ transport, ...hooks }).request(post, { retryable: false })
+
+    expect(res.status).toBe(500)
+    expect(await res.json()).toEqual({ message: "internal error" })
+    expect(calls).toHaveLength(1)
+    expect(sleeps).toEqual([])
+  })
+
+  test("gives up after maxRetries", async () => {
+    const { calls, transport } = scripted(json({}, 500), json({}, 500), json({}, 500))
+    const res = await new HttpClient({ transport, maxRetries: 2, ...clock().hooks }).request(get, { retryable: true })
+
+    expect(res.status).toBe(500)
+    expect(calls).toHaveLength(3)
+  })
+
+  test("times out a request that never answers", async () => {
+    const { transport } = scripted(() => new Promise<Response>(() => {}))
+    const client = new HttpClient({ transport, timeoutMs: 10, ...clock().hooks })
+
+    await expect(client.request(post, { retryable: false })).rejects.toBeInstanceOf(TimeoutError)
+  })
+
+  test("times out a response whose body stalls after the headers", async () => {
+    const stalled = new ReadableStream({ start(controller) { controller.enqueue(new TextEncoder().encode("{\"id\":")) } })
+    const { calls, transport } = scripted(new Response(stalled, { status: 200 }), json({ id: "acct" }))
+    const res = await new HttpClient({ transport, timeoutMs: 10, ...clock().hooks }).request(get, { retryable: true })
+
+    expect(calls).toHaveLength(2)
+    expect(await res.json()).toEqual({ id: "acct" })
+  })
+
+  test("ends the request with what recover finds instead of retrying", async () => {
+    const { calls, transport } = scripted(json({}, 500))
+    const res = await new HttpClient({ transport, ...clock().hooks }).request(post, {
+      retryable: true,
+      recover: async () => json({ recovered: true }),
+    })
+
+    expect(calls).toHaveLength(1)
+    expect(await res.json()).toEqual({ recovered: true })
+  })
+
+  test("waits for the window to reset once the rate-limit budget is spent", async () => {
+    const { hooks, sleeps } = clock(1_000_000)
+    // Reset at 1005 epoch seconds, 5s after the frozen clock
+    const { calls, transport } = scripted(
+      json({}, 200, { "X-RateLimit-Remaining": "1", "X-RateLimit-Reset": "1005" }),
+      json({}, 200, { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "1005" }),
+      json({}),
+    )
+    const client = new HttpClient({ transport, limiter: new RateLimiter(), ...hooks })
+
+    await client.request(get, { retryable: true })
+    await client.request(get, { retryable: true })
+    expect(sleeps).toEqual([])
+
+    await client.request(get, { retryable: true })
+    expect(sleeps).toEqual([5000])
+    expect(calls).toHaveLength(3)
+  })
+})
+
+// ── RateLimiter ─────────────────────────────────────────────
+
+describe("RateLimiter", () => {
+  test("hands out the remaining budget, then the time left in the window", () => {
+    const limiter = new RateLimiter()
+    expect(limiter.acquire(0)).toBe(0)
+
+    limiter.update(new Headers({ "X-RateLimit-Remaining": "2", "X-RateLimit-Reset": "60" }))
+    expect(limiter.acquire(10_000)).toBe(0)
+    expect(limiter.acquire(10_000)).toBe(0)
+    expect(limiter.acquire(10_000)).toBe(50_000)
+    // A new window starts over until a response reports its budget
+    expect(limiter.acquire(60_000)).toBe(0)
+    expect(limiter.acquire(60_000)).toBe(0)
+  })
+
+  test("holds everything back after a 429", () => {
+    const limiter = new RateLimiter()
+    limiter.block(3000)
+    expect(limiter.acquire(1000)).toBe(2000)
+    expect(limiter.acquire(3000)).toBe(0)
+  })
+})
+
+// ── AlpacaClient ────────────────────────────────────────────
+
+describe("AlpacaClient retries", () => {
+  // Rate-limit state is shared per API key, so each client gets its own
+  let keys = 0
+  const client = (transport: Transport) => new AlpacaClient(`key-${++keys}`, "secret", true, { transport, ...clock().hooks })
+
+  test("placeOrder recovers the order an earlier attempt submitted", async () => {
+    const { calls, transport } = scripted(
+      json({ message: "internal error" }, 500),
+      call => json({ id: "order-1", client_order_id: new URL(call.url).searchParams.get("client_order_id"), status: "new" }),
+    )
+    const order = await client(transport).placeOrder({ symbol: "AAPL", qty: "1", side: "buy", type: "market", time_in_force: "day" })
+
+    expect(calls.map(c => c.method)).toEqual(["POST", "GET"])
+    const sent = JSON.parse(calls[0].body as string).client_order_id
+    expect(sent).toBeString()
+    expect(calls[1].url).toEndWith(`/v2/orders:by_client_order_id?client_order_id=${sent}`)
+    expect(order).toMatchObject({ id: "order-1", client_order_id: sent })
+  })
+
+  test("placeOrder resubmits with the same client_order_id when the order never arrived", async () => {
+    const { calls, transport } = scripted(
+      json({}, 503),
+      json({ message: "order not found" }, 404),
+      json({ id: "order-2", status: "new" }),
+    )
+    const order = await client(transport).placeOrder({ symbol: "AAPL", qty: "1", side: "buy", type: "market", time_in_force: "day", client_order_id: "mine" })
+
+    expect(calls.map(c => c.method)).toEqual(["POST", "GET", "POST"])
+    expect(JSON.parse(calls[2].body as string).client_order_id).toBe("mine")
+    expect(order.id).toBe("order-2")
+  })
+
+  test("cancelOrder counts an order an earlier attempt cancelled as done", async () => {
+    const { calls, transport } = scripted(json({}, 504), json({ id: "order-1", status: "canceled" }))
+    await client(transport).cancelOrder("order-1")
+
+    expect(calls.map(c => `${c.method} ${new URL(c.url).pathname}`)).toEqual(["DELETE /v2/orders/order-1", "GET /v2/orders/order-1"])
+  })
+})
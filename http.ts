@@ -0,0 +1,227 @@
+/**
+ * HTTP transport
+ * Sends Alpaca REST requests with a per-attempt timeout that covers reading
+ * the body, jittered retries for rate limits and server errors, and
+ * throttling from Alpaca's X-RateLimit headers. The underlying fetch is
+ * injectable for testing.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+/** The subset of fetch the client relies on — satisfied by the global fetch or a test stand-in */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>
+
+export interface HttpRequest {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: string
+}
+
+export interface RequestPolicy {
+  /**
+   * Retry after a timeout, network error or 5xx. Only safe when repeating the
+   * request cannot apply it twice (reads, or orders with a client_order_id).
+   * 429s are always retried — Alpaca rejected those without acting on them.
+   */
+  retryable: boolean
+  /**
+   * Runs before retrying a request whose outcome is unknown (timeout, network
+   * error, 5xx). Returning a response ends the request with it — e.g. the
+   * order an earlier attempt did submit, looked up by client_order_id.
+   */
+  recover?: () => Promise<Response | null>
+}
+
+export interface HttpClientOptions {
+  transport?: Transport
+  /** Shared by every client using the same credentials and host, so throttling survives new client instances */
+  limiter?: RateLimiter
+  /** Per attempt, until the whole body has arrived; 0 disables the timeout */
+  timeoutMs?: number
+  /** Retries after the first attempt */
+  maxRetries?: number
+  /** First retry delay; doubles per attempt up to maxRetryDelayMs, then jittered */
+  retryDelayMs?: number
+  maxRetryDelayMs?: number
+  /** Longest wait for a rate-limit window to reset before sending anyway */
+  maxThrottleMs?: number
+  log?: { warn: (...args: unknown[]) => void }
+  /** Clock and timer hooks for tests */
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+export class TimeoutError extends Error {
+  constructor(request: HttpRequest, ms: number) {
+    super(`Alpaca request timed out after ${ms}ms: ${request.method} ${new URL(request.url).pathname}`)
+    this.name = "TimeoutError"
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const defaultTransport: Transport = (url, init) => fetch(url, init)
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 && status !== 501
+}
+
+/** How long a 429 asks us to wait: Retry-After (seconds or HTTP date), else X-RateLimit-Reset (epoch seconds) */
+function rateLimitWaitMs(headers: Headers, now: number): number | null {
+  const retryAfter = headers.get("retry-after")
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0)
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) return Math.max(date - now, 0)
+  }
+  const reset = Number(headers.get("x-ratelimit-reset") ?? NaN)
+  return Number.isFinite(reset) ? Math.max(reset * 1000 - now, 0) : null
+}
+
+// ── Rate limiter ────────────────────────────────────────────
+
+/**
+ * Tracks Alpaca's request budget from the X-RateLimit-Remaining and
+ * X-RateLimit-Reset (epoch seconds) headers. Once the budget is spent,
+ * requests wait for the window to reset instead of drawing a 429.
+ */
+export class RateLimiter {
+  private remaining: number | null = null
+  private resetAt = 0
+
+  /** Reserves one request from the budget and returns how long to wait before sending it */
+  acquire(now: number): number {
+    if (now >= this.resetAt) {
+      // A new window; the next response reports the real budget
+      if (this.resetAt > 0) this.remaining = null
+      return 0
+    }
+    if (this.remaining === null) return 0
+    if (this.remaining > 0) {
+      this.remaining--
+      return 0
+    }
+    return this.resetAt - now
+  }
+
+  update(headers: Headers): void {
+    const remaining = Number(headers.get("x-ratelimit-remaining") ?? NaN)
+    const reset = Number(headers.get("x-ratelimit-reset") ?? NaN)
+    if (Number.isFinite(reset)) this.resetAt = reset * 1000
+    if (Number.isFinite(remaining)) this.remaining = remaining
+  }
+
+  /** After a 429: nothing more goes out until `until` */
+  block(until: number): void {
+    this.remaining = 0
+    this.resetAt = Math.max(this.resetAt, until)
+  }
+}
+
+// ── Client ──────────────────────────────────────────────────
+
+export class HttpClient {
+  private opts: HttpClientOptions
+
+  constructor(opts: HttpClientOptions = {}) {
+    this.opts = opts
+  }
+
+  async request(req: HttpRequest, policy: RequestPolicy): Promise<Response> {
+    const maxRetries = this.opts.maxRetries ?? 3
+    let attempt = 0
+
+    for (;;) {
+      await this.throttle()
+
+      let res: Response | null = null
+      let failure: unknown = null
+      try {
+        res = await this.send(req)
+      } catch (e) {
+        failure = e
+      }
+
+      if (res) this.opts.limiter?.update(res.headers)
+
+      if (res?.status === 429) {
+        const wait = Math.min(rateLimitWaitMs(res.headers, this.now()) ?? this.backoff(attempt), this.opts.maxThrottleMs ?? 60000)
+        this.opts.limiter?.block(this.now() + wait)
+        if (attempt >= maxRetries) return res
+        this.opts.log?.warn(`Alpaca rate limit hit on ${req.method} ${new URL(req.url).pathname}; retrying in ${Math.round(wait)}ms`)
+        await this.sleep(wait)
+      } else if (res && !isRetryableStatus(res.status)) {
+        return res
+      } else {
+        // Timeout, network error or 5xx: the request may or may not have been applied
+        if (!policy.retryable || attempt >= maxRetries) {
+          if (res) return res
+          throw failure
+        }
+        this.opts.log?.warn(`Alpaca ${req.method} ${new URL(req.url).pathname} failed (${res ? res.status : failure instanceof Error ? failure.message : String(failure)}); retrying`)
+        await this.sleep(this.backoff(attempt))
+        const recovered = await policy.recover?.()
+        if (recovered) return recovered
+      }
+      attempt++
+    }
+  }
+
+  /**
+   * One attempt. The body is read here, inside the timeout, so a server that
+   * sends headers and then stalls cannot hang the caller; the response handed
+   * back is already buffered.
+   */
+  private async send(req: HttpRequest): Promise<Response> {
+    const transport = this.opts.transport ?? defaultTransport
+    const timeoutMs = this.opts.timeoutMs ?? 15000
+    const init: RequestInit = { method: req.method, headers: req.headers, body: req.body }
+    const receive = async () => {
+      const res = await transport(req.url, init)
+      const body = await res.arrayBuffer()
+      return new Response(body.byteLength > 0 ? body : null, { status: res.status, statusText: res.statusText, headers: res.headers })
+    }
+    if (timeoutMs <= 0) return receive()
+
+    const controller = new AbortController()
+    init.signal = controller.signal
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort()
+        reject(new TimeoutError(req, timeoutMs))
+      }, timeoutMs)
+    })
+    try {
+      // Race as well as abort, so a transport that ignores the signal still times out
+      return await Promise.race([receive(), timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /** Waits out an exhausted rate-limit window, up to maxThrottleMs */
+  private async throttle(): Promise<void> {
+    const wait = this.opts.limiter?.acquire(this.now()) ?? 0
+    if (wait > 0) await this.sleep(Math.min(wait, this.opts.maxThrottleMs ?? 60000))
+  }
+
+  /** Full jitter: a random delay up to the exponential cap */
+  private backoff(attempt: number): number {
+    const base = this.opts.retryDelayMs ?? 250
+    const max = this.opts.maxRetryDelayMs ?? 8000
+    return Math.min(max, base * 2 ** attempt) * (this.opts.random ?? Math.random)()
+  }
+
+  private now(): number {
+    return (this.opts.now ?? Date.now)()
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return (this.opts.sleep ?? defaultSleep)(ms)
+  }
+}
@@ -6,12 +6,88 @@
 
 import type { PluginContext, PluginRegistrations } from "./types"
 import { Elysia } from "elysia"
+import { readFile } from "node:fs/promises"
+import { isAbsolute, relative, resolve } from "node:path"
+import { fileURLToPath } from "node:url"
+import { buildLegFields, buildMultiLegOrder, buildStrategyLegs, validateOrderLegs, type OptionStrategy, type OrderClass } from "./orders"
+import { annualizedVolatility, drawdownSeries, equityStats, maxDrawdown, periodReturns, PERIODS_PER_YEAR, stdev, totalReturn } from "./analytics"
+import { checkTradability, describeAsset, type AlpacaAsset } from "./assets"
+import { BarCache, loadBars, type BarAdjustment } from "./bars"
+import { createStrategy, parseBarFile, runBacktest, strategyWarmup, type StrategySpec } from "./backtest"
+import { sizePosition, type SizingCap } from "./sizing"
+import { equalWeights, fitBuys, normalizeTargets, planRebalance, type RebalanceAsset, type RebalancePlan, type RebalanceTrade } from "./rebalance"
+import { addCalendarDays, calendarDaysBetween, exchangeToday, optionExpiration, TradingCalendar, type CalendarDay } from "./calendar"
+import { atr, bollinger, detectSignals, ema, last, macd, rsi, sma, stochastic, vwap, warmupBars, type OHLCV } from "./indicators"
+import { AlertStore, conditionMet, describeAlert, waitsToClear, type Alert, type AlertCondition, type AlertDirection } from "./alerts"
+import { asSqlDatabase } from "./db"
+import { createAlpacaError, CredentialsNotConfiguredError, errorBody, explainError, httpStatusFor, NotFoundError, summarizeError } from "./errors"
+import { HttpClient, RateLimiter, type RequestPolicy, type Transport } from "./http"
+import { matchLots, realizedToCsv, summarizeByYear, type LotFill, type LotMethod } from "./lots"
+import { formatTags, JournalStore, parseTags, type JournalEntry } from "./journal"
+import { formatTradeUpdate, TradeUpdateStream, type TradeUpdate } from "./stream"
+import { isMirrorOrder, isWholeUnits, mirrorClientOrderId, mirrorTarget, parseMirrorDirection, reconcilePositions, scaleOrderBody, scaleQty, type MirrorDirection } from "./mirror"
+import { evaluateOrder, hasActiveLimits, normalizeSymbol, optionUnderlying, parseSymbolList, type RiskLimits } from "./risk"
 
 // ── Alpaca API URLs ─────────────────────────────────────────
 
 const PAPER_TRADE_URL = "https://paper-api.alpaca.markets"
 const LIVE_TRADE_URL = "https://api.alpaca.markets"
 const DATA_URL = "https://data.alpaca.markets"
+const PAPER_STREAM_URL = "wss://paper-api.alpaca.markets/stream"
+const LIVE_STREAM_URL = "wss://api.alpaca.markets/stream"
+
+/** Human-readable names for Alpaca account activity types */
+const ACTIVITY_TYPE_LABELS: Record<string, string> = {
+  FILL: "Order fills",
+  DIV: "Dividends",
+  DIVCGL: "Dividends (long-term capital gain)",
+  DIVCGS: "Dividends (short-term capital gain)",
+  DIVNRA: "Dividend withholding (NRA)",
+  DIVROC: "Dividends (return of capital)",
+  DIVTXEX: "Dividends (tax exempt)",
+  FEE: "Fees",
+  CFEE: "Crypto fees",
+  PTC: "Pass-through charges",
+  INT: "Interest",
+  CSD: "Cash deposits",
+  CSW: "Cash withdrawals",
+  JNLC: "Cash journals",
+  JNLS: "Stock journals",
+  SPLIT: "Stock splits",
+  MA: "Mergers & acquisitions",
+  SC: "Symbol changes",
+  REORG: "Reorganizations",
+  OPEXP: "Option expirations",
+  OPASN: "Option assignments",
+  OPEXC: "Option exercises",
+}
+
+/** Order statuses after which an order will not change again */
+const TERMINAL_ORDER_STATUSES = new Set(["filled", "canceled", "expired", "rejected", "replaced"])
+
+/** How often the scheduled task checks price alerts */
+const ALERT_CHECK_INTERVAL_MS = 60 * 1000
+
+/** Max symbols per snapshot request when checking alerts */
+const ALERT_BATCH_SIZE = 100
+
+/** How long asset details are reused before refreshing; borrow availability changes daily */
+const ASSET_CACHE_TTL_MS = 15 * 60 * 1000
+
+/** How long a rebalance waits for its sells to fill before placing the buys */
+const REBALANCE_SELL_WAIT_MS = 30 * 1000
+
+/** How long the fetched market calendar is reused before refreshing */
+const CALENDAR_TTL_MS = 12 * 60 * 60 * 1000
+
+/** Years of past sessions kept in the cached calendar */
+const CALENDAR_YEARS_BACK = 10
+
+/** How long a live-order preview token stays valid */
+const CONFIRM_TTL_MS = 2 * 60 * 1000
+
+/** The only directory alpaca_backtest reads bar files from */
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures/", import.meta.url))
 
 // ── Types ───────────────────────────────────────────────────
 
@@ -78,6 +154,69 @@ interface AlpacaOrder {
   extended_hours: boolean
   trail_percent: string | null
   trail_price: string | null
+  legs?: AlpacaOrder[] | null
+}
+
+/** What an order tool is about to submit, in the terms the risk engine and previews need. */
+interface OrderIntent {
+  symbol: string
+  side: "buy" | "sell"
+  assetClass: AssetClass
+  qty?: number
+  notional?: number
+  /** Known price (limit/stop or position mark). Falls back to the latest snapshot. */
+  price?: number
+  /** Contracts of a multi-leg options order; symbol is then the underlying */
+  legs?: OrderLeg[]
+}
+
+interface OrderLeg {
+  symbol: string
+  side: "buy" | "sell"
+  ratio: number
+}
+
+interface PendingOrder {
+  tool: string
+  mode: "paper" | "live"
+  order: Record<string, unknown>
+  expiresAt: number
+}
+
+/** A planned rebalance plus what is needed to turn its trades into orders */
+interface RebalanceContext {
+  plan: RebalancePlan
+  assets: Record<string, RebalanceAsset>
+  /** Planner key (slash-free symbol) → symbol to order with */
+  orderSymbols: Record<string, string>
+  classes: Record<string, string>
+  equity: number
+  cashBuffer: number
+  minOrderNotional: number
+}
+
+/**
+ * A copy into the live account, held until alpaca_confirm_mirror submits it:
+ * a new order mirroring `sourceId`, or a change to the copy `copyId`.
+ */
+type PendingMirror = {
+  sourceId: string
+  tool: string
+  args: Record<string, unknown>
+  intent: OrderIntent
+  expiresAt: number
+} & (
+  | { kind: "order"; body: Record<string, unknown>; journalOpts: { symbol?: string; side?: string; linkIdea?: boolean } }
+  | { kind: "replace"; copyId: string; changes: Record<string, unknown> }
+)
+
+/** A previewed live rebalance, submitted as planned once its token comes back */
+interface PendingRebalance {
+  mode: "paper" | "live"
+  /** Tool arguments the plan was built from, minus execute and the token */
+  args: Record<string, unknown>
+  context: RebalanceContext
+  expiresAt: number
 }
 
 interface AlpacaOptionContract {
@@ -127,6 +266,29 @@ interface AlpacaOptionSnapshot {
   impliedVolatility?: number
 }
 
+/** Trade (FILL) and non-trade (DIV, FEE, ...) activities share one endpoint; fields depend on the type */
+interface AlpacaActivity {
+  id: string
+  activity_type: string
+  // Trade activities
+  transaction_time?: string
+  type?: string
+  price?: string
+  qty?: string
+  side?: string
+  symbol?: string
+  leaves_qty?: string
+  order_id?: string
+  cum_qty?: string
+  order_status?: string
+  // Non-trade activities
+  date?: string
+  net_amount?: string
+  description?: string
+  status?: string
+  per_share_amount?: string
+}
+
 interface AlpacaClock {
   timestamp: string
   is_open: boolean
@@ -153,40 +315,139 @@ interface AlpacaSnapshot {
   prevDailyBar: AlpacaBar
 }
 
+interface AlpacaWatchlist {
+  id: string
+  name: string
+  assets: Array<{ id: string; symbol: string; name: string; class?: string }>
+}
+
+interface AlpacaCryptoSnapshot {
+  latestTrade: { t: string; p: number; s: number }
+  latestQuote: { t: string; bp: number; bs: number; ap: number; as: number }
+  minuteBar: AlpacaBar
+  dailyBar: AlpacaBar
+  prevDailyBar: AlpacaBar
+}
+
+interface AlpacaOrderbook {
+  t: string
+  b: Array<{ p: number; s: number }>
+  a: Array<{ p: number; s: number }>
+}
+
+interface AlpacaCryptoTrade {
+  t: string
+  p: number
+  s: number
+  i: number
+  /** Taker side: B (buy) or S (sell) */
+  tks: "B" | "S"
+}
+
 // ── Helpers ─────────────────────────────────────────────────
 
+type AssetClass = "us_equity" | "crypto" | "us_option"
+
 function formatMoney(val: string | number): string {
   const n = typeof val === "string" ? parseFloat(val) : val
   return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
 }
 
+/** Crypto prices run from fractions of a cent to tens of thousands; keep enough decimals to be useful. */
+function formatCryptoPrice(n: number): string {
+  return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: n >= 1 ? 2 : 8 })
+}
+
+/** Quote currencies Alpaca lists crypto pairs against, longest first so USDT wins over USD */
+const CRYPTO_QUOTE_CURRENCIES = ["USDT", "USDC", "USD", "BTC"]
+
+/** "btcusd", "BTC-USD" and "BTC/USD" all become "BTC/USD" */
+function normalizeCryptoPair(symbol: string): string {
+  const s = symbol.trim().toUpperCase().replace(/[-_]/g, "/")
+  if (s.includes("/")) return s
+  const quote = CRYPTO_QUOTE_CURRENCIES.find(q => s.endsWith(q) && s.length > q.length)
+  return quote ? `${s.slice(0, -quote.length)}/${quote}` : s
+}
+
+/** "Feb 21, 2025 (12 DTE, 9 sessions)" — sessions are left out when no calendar is available */
+function formatExpiry(expiration: string, calendar: TradingCalendar | null): string {
+  const today = exchangeToday()
+  const date = new Date(`${expiration}T12:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })
+  const dte = calendarDaysBetween(today, expiration)
+  if (dte < 0) return `${date} (expired)`
+  const sessions = calendar?.covers(expiration) ? `, ${calendar.count(today, expiration)} sessions` : ""
+  return `${date} (${dte} DTE${sessions})`
+}
+
 function formatPercent(val: string | number): string {
   const n = typeof val === "string" ? parseFloat(val) : val
   const sign = n >= 0 ? "+" : ""
   return `${sign}${(n * 100).toFixed(2)}%`
 }
 
+/** Dollar multiplier per unit of qty — option prices are quoted per share of a 100-share contract. */
+function contractMultiplier(assetClass: AssetClass): number {
+  return assetClass === "us_option" ? 100 : 1
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
 function ok(text: string) {
   return { content: [{ type: "text" as const, text }], isError: false }
 }
 
-function err(text: string) {
+/** Error result from a message, or from a caught error — Alpaca errors are explained with a suggested fix */
+function err(error: unknown) {
+  const text = typeof error === "string" ? error : explainError(error)
   return { content: [{ type: "text" as const, text }], isError: true }
 }
 
 // ── API Client ──────────────────────────────────────────────
 
-class AlpacaClient {
+interface AlpacaClientOptions {
+  /** Replaces fetch, e.g. with a local fake server */
+  transport?: Transport
+  timeoutMs?: number
+  maxRetries?: number
+  log?: { warn: (...args: unknown[]) => void }
+  /** Clock and timer hooks for tests */
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+// Rate-limit state per API key and host. Clients are created per call, so it lives here.
+const rateLimiters = new Map<string, RateLimiter>()
+
+function rateLimiterFor(apiKey: string, url: string): RateLimiter {
+  const key = `${apiKey}@${new URL(url).host}`
+  let limiter = rateLimiters.get(key)
+  if (!limiter) {
+    limiter = new RateLimiter()
+    rateLimiters.set(key, limiter)
+  }
+  return limiter
+}
+
+export class AlpacaClient {
   private apiKey: string
   private secretKey: string
   private tradeUrl: string
   private dataUrl: string
+  private account: "paper" | "live"
+  private tradeHttp: HttpClient
+  private dataHttp: HttpClient
 
-  constructor(apiKey: string, secretKey: string, paper: boolean) {
+  constructor(apiKey: string, secretKey: string, paper: boolean, options: AlpacaClientOptions = {}) {
     this.apiKey = apiKey
     this.secretKey = secretKey
     this.tradeUrl = paper ? PAPER_TRADE_URL : LIVE_TRADE_URL
     this.dataUrl = DATA_URL
+    this.account = paper ? "paper" : "live"
+    this.tradeHttp = new HttpClient({ ...options, limiter: rateLimiterFor(apiKey, this.tradeUrl) })
+    this.dataHttp = new HttpClient({ ...options, limiter: rateLimiterFor(apiKey, this.dataUrl) })
   }
 
   private headers(): Record<string, string> {
@@ -197,15 +458,14 @@ class AlpacaClient {
     }
   }
 
-  async trade<T>(method: string, path: string, body?: unknown): Promise<T> {
-    const url = `${this.tradeUrl}${path}`
-    const opts: RequestInit = { method, headers: this.headers() }
-    if (body) opts.body = JSON.stringify(body)
-
-    const res = await fetch(url, opts)
+  /** Reads are retried on timeouts and 5xx; writes only when `policy` says repeating them is safe */
+  async trade<T>(method: string, path: string, body?: unknown, policy: Partial<RequestPolicy> = {}): Promise<T> {
+    const res = await this.tradeHttp.request(
+      { method, url: `${this.tradeUrl}${path}`, headers: this.headers(), body: body ? JSON.stringify(body) : undefined },
+      { retryable: method === "GET", ...policy },
+    )
     if (!res.ok) {
-      const text = await res.text()
-      throw new Error(`Alpaca ${res.status}: ${text}`)
+      throw createAlpacaError({ status: res.status, body: await res.text(), api: "trading", method, path, account: this.account })
     }
     if (res.status === 204) return {} as T
     return (await res.json()) as T
@@ -217,10 +477,9 @@ class AlpacaClient {
       if (v) url.searchParams.set(k, v)
     }
 
-    const res = await fetch(url.toString(), { headers: this.headers() })
+    const res = await this.dataHttp.request({ method: "GET", url: url.toString(), headers: this.headers() }, { retryable: true })
     if (!res.ok) {
-      const text = await res.text()
-      throw new Error(`Alpaca Data ${res.status}: ${text}`)
+      throw createAlpacaError({ status: res.status, body: await res.text(), api: "data", method: "GET", path, account: this.account })
     }
     return (await res.json()) as T
   }
@@ -243,12 +502,47 @@ class AlpacaClient {
   }
 
   // ── Orders ──
-  getOrders(status = "open", limit = 50) {
-    return this.trade<AlpacaOrder[]>("GET", `/v2/orders?status=${status}&limit=${limit}`)
+  getOrders(status = "open", limit = 50, nested = false) {
+    return this.trade<AlpacaOrder[]>("GET", `/v2/orders?status=${status}&limit=${limit}&nested=${nested}`)
   }
   getOrder(orderId: string) { return this.trade<AlpacaOrder>("GET", `/v2/orders/${orderId}`) }
-  placeOrder(order: Record<string, unknown>) { return this.trade<AlpacaOrder>("POST", "/v2/orders", order) }
-  cancelOrder(orderId: string) { return this.trade<void>("DELETE", `/v2/orders/${orderId}`) }
+  getOrderByClientId(clientOrderId: string) {
+    return this.trade<AlpacaOrder>("GET", `/v2/orders:by_client_order_id?client_order_id=${encodeURIComponent(clientOrderId)}`)
+  }
+  /**
+   * Every order carries a client_order_id, which makes it safe to retry: after
+   * a timeout or 5xx the order is first looked up by that ID, and a resubmit
+   * of one that did arrive is refused by Alpaca as a duplicate.
+   */
+  placeOrder(order: Record<string, unknown>) {
+    const body = { ...order, client_order_id: order.client_order_id ?? crypto.randomUUID() }
+    return this.trade<AlpacaOrder>("POST", "/v2/orders", body, {
+      retryable: true,
+      recover: async () => {
+        const url = `${this.tradeUrl}/v2/orders:by_client_order_id?client_order_id=${encodeURIComponent(body.client_order_id as string)}`
+        const res = await this.tradeHttp.request({ method: "GET", url, headers: this.headers() }, { retryable: true }).catch(() => null)
+        return res?.ok ? res : null
+      },
+    })
+  }
+  replaceOrder(orderId: string, changes: Record<string, unknown>) { return this.trade<AlpacaOrder>("PATCH", `/v2/orders/${orderId}`, changes) }
+  /**
+   * Retried like placeOrder: before cancelling again after a timeout or 5xx,
+   * the order is looked up, and one an earlier attempt already cancelled
+   * counts as done rather than drawing a 422 for the repeat.
+   */
+  cancelOrder(orderId: string) {
+    return this.trade<void>("DELETE", `/v2/orders/${orderId}`, undefined, {
+      retryable: true,
+      recover: async () => {
+        const url = `${this.tradeUrl}/v2/orders/${orderId}`
+        const res = await this.tradeHttp.request({ method: "GET", url, headers: this.headers() }, { retryable: true }).catch(() => null)
+        if (!res?.ok) return null
+        const order = (await res.json()) as AlpacaOrder
+        return order.status === "canceled" || order.status === "pending_cancel" ? new Response(null, { status: 204 }) : null
+      },
+    })
+  }
   cancelAllOrders() { return this.trade<unknown>("DELETE", "/v2/orders") }
 
   // ── Clock / Calendar ──
@@ -258,7 +552,7 @@ class AlpacaClient {
     if (start) params.set("start", start)
     if (end) params.set("end", end)
     const qs = params.toString() ? `?${params}` : ""
-    return this.trade<Array<{ date: string; open: string; close: string }>>("GET", `/v2/calendar${qs}`)
+    return this.trade<CalendarDay[]>("GET", `/v2/calendar${qs}`)
   }
 
   // ── Portfolio History ──
@@ -273,6 +567,44 @@ class AlpacaClient {
     }>("GET", `/v2/account/portfolio/history?period=${period}&timeframe=${timeframe}`)
   }
 
+  // ── Account Activities ──
+  getActivities(types: string[], params: Record<string, string> = {}) {
+    const qs = new URLSearchParams(params)
+    if (types.length > 0) qs.set("activity_types", types.join(","))
+    return this.trade<AlpacaActivity[]>("GET", `/v2/account/activities?${qs}`)
+  }
+  /**
+   * Follows page tokens (the last activity ID of each page) until a short
+   * page or maxPages. `truncated` is set when maxPages ran out first, so the
+   * oldest activities are there but later ones may be missing.
+   */
+  async getAllActivities(types: string[], params: Record<string, string> = {}, maxPages = 50) {
+    const pageSize = 100
+    const activities: AlpacaActivity[] = []
+    let pageToken: string | undefined
+    for (let page = 0; page < maxPages; page++) {
+      const batch = await this.getActivities(types, {
+        direction: "asc",
+        ...params,
+        page_size: String(pageSize),
+        ...(pageToken ? { page_token: pageToken } : {}),
+      })
+      activities.push(...batch)
+      if (batch.length < pageSize) return { activities, truncated: false }
+      pageToken = batch[batch.length - 1].id
+    }
+    return { activities, truncated: true }
+  }
+
+  // ── Assets ──
+  getAssets(params: Record<string, string> = {}) {
+    const qs = new URLSearchParams(params).toString()
+    return this.trade<AlpacaAsset[]>("GET", `/v2/assets${qs ? `?${qs}` : ""}`)
+  }
+  getAsset(symbolOrId: string) {
+    return this.trade<AlpacaAsset>("GET", `/v2/assets/${encodeURIComponent(symbolOrId)}`)
+  }
+
   // ── Market Data ──
   getSnapshot(symbol: string) {
     return this.data<AlpacaSnapshot>(`/v2/stocks/${encodeURIComponent(symbol)}/snapshot`, { feed: "iex" })
@@ -285,24 +617,78 @@ class AlpacaClient {
     if (end) params.end = end
     return this.data<{ bars: AlpacaBar[] }>(`/v2/stocks/${encodeURIComponent(symbol)}/bars`, params)
   }
+  /** Every bar in the range, oldest first, following next_page_token until exhausted or maxPages. */
+  async getAllBars(symbol: string, timeframe: string, start: string, end?: string, adjustment: BarAdjustment = "raw", maxPages = 50) {
+    const all: AlpacaBar[] = []
+    let pageToken: string | undefined
+    for (let page = 0; page < maxPages; page++) {
+      const params: Record<string, string> = { timeframe, start, adjustment, limit: "10000", feed: "iex", sort: "asc" }
+      if (end) params.end = end
+      if (pageToken) params.page_token = pageToken
+      const result = await this.data<{ bars: AlpacaBar[] | null; next_page_token: string | null }>(`/v2/stocks/${encodeURIComponent(symbol)}/bars`, params)
+      all.push(...(result.bars || []))
+      if (!result.next_page_token) break
+      pageToken = result.next_page_token
+    }
+    return all
+  }
 
   // ── Crypto ──
-  getCryptoSnapshot(symbol: string) {
-    return this.data<{
-      latestTrade: { t: string; p: number; s: number }
-      latestQuote: { t: string; bp: number; bs: number; ap: number; as: number }
-      minuteBar: AlpacaBar
-      dailyBar: AlpacaBar
-    }>(`/v1beta3/crypto/us/snapshots/${encodeURIComponent(symbol)}`)
+  async getCryptoSnapshot(symbol: string) {
+    const snaps = await this.getCryptoSnapshots([symbol])
+    const snap = snaps[symbol]
+    if (!snap) throw new Error(`No crypto data for ${symbol}`)
+    return snap
+  }
+  async getCryptoSnapshots(symbols: string[]) {
+    const result = await this.data<{ snapshots: Record<string, AlpacaCryptoSnapshot> }>(`/v1beta3/crypto/us/snapshots`, { symbols: symbols.join(",") })
+    return result.snapshots || {}
+  }
+  /** Every bar in the range, oldest first, following next_page_token until exhausted or maxPages. */
+  async getAllCryptoBars(symbol: string, timeframe: string, start: string, end?: string, maxPages = 50) {
+    const all: AlpacaBar[] = []
+    let pageToken: string | undefined
+    for (let page = 0; page < maxPages; page++) {
+      const params: Record<string, string> = { symbols: symbol, timeframe, start, limit: "10000", sort: "asc" }
+      if (end) params.end = end
+      if (pageToken) params.page_token = pageToken
+      const result = await this.data<{ bars: Record<string, AlpacaBar[]>; next_page_token: string | null }>(`/v1beta3/crypto/us/bars`, params)
+      all.push(...(result.bars?.[symbol] || []))
+      if (!result.next_page_token) break
+      pageToken = result.next_page_token
+    }
+    return all
+  }
+  async getCryptoOrderbook(symbol: string) {
+    const result = await this.data<{ orderbooks: Record<string, AlpacaOrderbook> }>(`/v1beta3/crypto/us/latest/orderbooks`, { symbols: symbol })
+    const book = result.orderbooks?.[symbol]
+    if (!book) throw new Error(`No order book for ${symbol}`)
+    return book
+  }
+  /** Most recent trades, newest first */
+  async getCryptoTrades(symbol: string, limit: number, start?: string) {
+    const params: Record<string, string> = { symbols: symbol, limit: String(limit), sort: "desc" }
+    if (start) params.start = start
+    const result = await this.data<{ trades: Record<string, AlpacaCryptoTrade[]> }>(`/v1beta3/crypto/us/trades`, params)
+    return result.trades?.[symbol] || []
   }
 
   // ── Watchlists ──
   getWatchlists() { return this.trade<Array<{ id: string; name: string; account_id: string }>>("GET", "/v2/watchlists") }
   createWatchlist(name: string, symbols: string[]) { return this.trade<unknown>("POST", "/v2/watchlists", { name, symbols }) }
   getWatchlist(id: string) {
-    return this.trade<{ id: string; name: string; assets: Array<{ id: string; symbol: string; name: string }> }>("GET", `/v2/watchlists/${id}`)
+    return this.trade<AlpacaWatchlist>("GET", `/v2/watchlists/${id}`)
+  }
+  getWatchlistByName(name: string) {
+    return this.trade<AlpacaWatchlist>("GET", `/v2/watchlists:by_name?name=${encodeURIComponent(name)}`)
+  }
+  updateWatchlist(id: string, changes: { name?: string; symbols?: string[] }) {
+    return this.trade<AlpacaWatchlist>("PUT", `/v2/watchlists/${id}`, changes)
+  }
+  addToWatchlist(id: string, symbol: string) { return this.trade<AlpacaWatchlist>("POST", `/v2/watchlists/${id}`, { symbol }) }
+  removeFromWatchlist(id: string, symbol: string) {
+    return this.trade<AlpacaWatchlist>("DELETE", `/v2/watchlists/${id}/${encodeURIComponent(symbol)}`)
   }
-  addToWatchlist(id: string, symbol: string) { return this.trade<unknown>("POST", `/v2/watchlists/${id}`, { symbol }) }
   deleteWatchlist(id: string) { return this.trade<void>("DELETE", `/v2/watchlists/${id}`) }
 
   // ── Options ──
@@ -326,8 +712,57 @@ class AlpacaClient {
   }
 }
 
+// ── Pricing ─────────────────────────────────────────────────
+
+/** Latest trade price for a symbol, falling back to the ask when no trade is reported. */
+async function latestPrice(client: AlpacaClient, assetClass: AssetClass, symbol: string): Promise<number> {
+  if (assetClass === "crypto") {
+    const snap = await client.getCryptoSnapshot(symbol)
+    return snap.latestTrade?.p || snap.latestQuote?.ap || 0
+  }
+  if (assetClass === "us_option") {
+    const result = await client.getOptionSnapshots([symbol])
+    const snap = result.snapshots?.[symbol]
+    return snap?.latestTrade?.p || snap?.latestQuote?.ap || 0
+  }
+  const snap = await client.getSnapshot(symbol)
+  return snap.latestTrade?.p || snap.latestQuote?.ap || 0
+}
+
+/** Net price per unit of a multi-leg order from quote midpoints: positive is a debit, negative a credit. */
+async function netLegPrice(client: AlpacaClient, legs: OrderLeg[]): Promise<number> {
+  const result = await client.getOptionSnapshots(legs.map(l => l.symbol))
+  let net = 0
+  for (const leg of legs) {
+    const snap = result.snapshots?.[leg.symbol]
+    const quote = snap?.latestQuote
+    const price = quote && quote.bp && quote.ap ? (quote.bp + quote.ap) / 2 : snap?.latestTrade?.p
+    if (!price) return 0
+    net += (leg.side === "buy" ? 1 : -1) * leg.ratio * price
+  }
+  return net
+}
+
+/** Unsigned per-unit price used to value an order when no limit or stop price is given. */
+async function estimatePrice(client: AlpacaClient, intent: OrderIntent): Promise<number> {
+  if (intent.legs) return Math.abs(await netLegPrice(client, intent.legs))
+  return latestPrice(client, intent.assetClass, intent.symbol)
+}
+
 // ── Plugin Entry ────────────────────────────────────────────
 
+// Open trade_updates sockets, closed again in deactivate()
+let tradeStreams: TradeUpdateStream[] = []
+
+/** Settings that switch chat notifications on or off per trade_updates event */
+const TRADE_UPDATE_FILTERS: Record<string, string> = {
+  fill: "notifyOnFill",
+  partial_fill: "notifyOnPartialFill",
+  canceled: "notifyOnCancel",
+  expired: "notifyOnExpire",
+  rejected: "notifyOnReject",
+}
+
 export async function activate(ctx: PluginContext): Promise<PluginRegistrations> {
   ctx.log.info("Activating alpaca-trading plugin (Dual Mode)")
 
@@ -335,21 +770,19 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
     const apiKey = ctx.getSetting<string>("paperApiKey")
     const secretKey = ctx.getSetting<string>("paperSecretKey")
     if (!apiKey || !secretKey) return null
-    return new AlpacaClient(apiKey, secretKey, true)
+    return new AlpacaClient(apiKey, secretKey, true, { log: ctx.log })
   }
 
   function getLiveClient(): AlpacaClient | null {
     const apiKey = ctx.getSetting<string>("liveApiKey")
     const secretKey = ctx.getSetting<string>("liveSecretKey")
     if (!apiKey || !secretKey) return null
-    return new AlpacaClient(apiKey, secretKey, false)
+    return new AlpacaClient(apiKey, secretKey, false, { log: ctx.log })
   }
 
   function getClient(mode: "paper" | "live"): AlpacaClient {
     const client = mode === "paper" ? getPaperClient() : getLiveClient()
-    if (!client) {
-      throw new Error(`${mode.toUpperCase()} trading credentials not configured. Set them in plugin settings.`)
-    }
+    if (!client) throw new CredentialsNotConfiguredError(mode)
     return client
   }
 
@@ -357,49 +790,987 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
     return mode === "paper" ? "PAPER" : "LIVE"
   }
 
+  // ── Market calendar ──
+
+  let calendarCache: { calendar: TradingCalendar; fetchedAt: number } | null = null
+
+  /**
+   * Sessions from CALENDAR_YEARS_BACK years ago through as far ahead as Alpaca
+   * publishes, cached for CALENDAR_TTL_MS. Ranges outside that are fetched on demand.
+   */
+  async function getTradingCalendar(client: AlpacaClient, start?: string, end?: string): Promise<TradingCalendar> {
+    if (!calendarCache || Date.now() - calendarCache.fetchedAt > CALENDAR_TTL_MS) {
+      const from = addCalendarDays(exchangeToday(), -365 * CALENDAR_YEARS_BACK)
+      const to = addCalendarDays(exchangeToday(), 365 * 2)
+      calendarCache = { calendar: new TradingCalendar(await client.getCalendar(from, to)), fetchedAt: Date.now() }
+    }
+    const cached = calendarCache.calendar
+    if ((start && !cached.covers(start)) || (end && !cached.covers(end))) {
+      return new TradingCalendar(await client.getCalendar(start, end))
+    }
+    return cached
+  }
+
+  /** Start date `sessions` trading days back from today, falling back to a calendar-day estimate if the calendar is unavailable */
+  async function tradingDaysAgo(client: AlpacaClient, sessions: number): Promise<string> {
+    const today = exchangeToday()
+    try {
+      const start = (await getTradingCalendar(client)).offset(today, -sessions)
+      if (start) return start
+    } catch (e) {
+      ctx.log.warn("Market calendar unavailable, estimating lookback in calendar days:", e)
+    }
+    return addCalendarDays(today, -Math.ceil(sessions * 7 / 5) - 5)
+  }
+
+  // ── Historical bars ──
+
+  let barCache: BarCache | null | undefined
+  /** The bar cache, or null when the plugin database is unavailable (bars are then always fetched) */
+  function getBarCache(): BarCache | null {
+    if (barCache === undefined) {
+      try { barCache = new BarCache(asSqlDatabase(ctx.getDb())) }
+      catch (e) {
+        ctx.log.warn("Bar cache unavailable, fetching bars directly:", e)
+        barCache = null
+      }
+    }
+    return barCache
+  }
+
+  /** Full-range stock bars, oldest first, served from the local cache where possible */
+  function fetchBars(client: AlpacaClient, symbol: string, timeframe: string, start: string, end?: string, adjustment: BarAdjustment = "raw") {
+    return loadBars(
+      { symbol, timeframe, adjustment, start, end },
+      (from, to) => client.getAllBars(symbol, timeframe, from, to, adjustment),
+      getBarCache(),
+    )
+  }
+
+  /** Full-range crypto bars, cached the same way; crypto has no corporate actions, so bars are always raw */
+  function fetchCryptoBars(client: AlpacaClient, pair: string, timeframe: string, start: string, end?: string) {
+    return loadBars(
+      { symbol: pair, timeframe, adjustment: "raw", start, end },
+      (from, to) => client.getAllCryptoBars(pair, timeframe, from, to),
+      getBarCache(),
+    )
+  }
+
+  // ── Watchlist board ──
+
+  /**
+   * One row per symbol: price, change from previous close, volume, and
+   * distance from the 52-week high and low. The year of daily bars through
+   * yesterday comes from the bar cache, so only the first board for a symbol
+   * fetches history; today's range comes from the snapshot.
+   */
+  async function watchlistBoard(client: AlpacaClient, wl: AlpacaWatchlist, label: string): Promise<string> {
+    const isCrypto = (a: AlpacaWatchlist["assets"][number]) => a.class === "crypto" || a.symbol.includes("/")
+    const stocks = wl.assets.filter(a => !isCrypto(a)).map(a => a.symbol)
+    const cryptos = wl.assets.filter(isCrypto).map(a => normalizeCryptoPair(a.symbol))
+
+    const [stockSnaps, cryptoSnaps] = await Promise.all([
+      stocks.length ? client.getSnapshots(stocks) : Promise.resolve({} as Record<string, AlpacaSnapshot>),
+      cryptos.length ? client.getCryptoSnapshots(cryptos) : Promise.resolve({} as Record<string, AlpacaCryptoSnapshot>),
+    ])
+
+    const yearAgo = addCalendarDays(exchangeToday(), -365)
+    const yesterday = addCalendarDays(exchangeToday(), -1)
+    const yearRange = async (symbol: string, crypto: boolean): Promise<{ high: number; low: number } | null> => {
+      try {
+        const bars = crypto
+          ? await fetchCryptoBars(client, symbol, "1Day", yearAgo, yesterday)
+          : await fetchBars(client, symbol, "1Day", yearAgo, yesterday, "split")
+        if (bars.length === 0) return null
+        return { high: Math.max(...bars.map(b => b.h)), low: Math.min(...bars.map(b => b.l)) }
+      } catch (e) {
+        ctx.log.warn(`Could not load 52-week range for ${symbol}:`, e)
+        return null
+      }
+    }
+    const symbols = [...stocks.map(s => ({ symbol: s, crypto: false })), ...cryptos.map(s => ({ symbol: s, crypto: true }))]
+    const ranges = await Promise.all(symbols.map(({ symbol, crypto }) => yearRange(symbol, crypto)))
+
+    const header = ["Symbol", "Price", "Change", "Volume", "vs 52w High", "vs 52w Low"]
+    const rows: string[][] = []
+    symbols.forEach(({ symbol, crypto }, i) => {
+      const snap = crypto ? cryptoSnaps[symbol] : stockSnaps[symbol]
+      if (!snap?.latestTrade) { rows.push([symbol, "No data", "", "", "", ""]); return }
+      const price = snap.latestTrade.p
+      const prevClose = snap.prevDailyBar?.c
+      const range = ranges[i]
+      const high = Math.max(range?.high ?? -Infinity, snap.dailyBar?.h ?? -Infinity)
+      const low = Math.min(range?.low ?? Infinity, snap.dailyBar?.l ?? Infinity)
+      const pct = (from: number) => `${price >= from ? "+" : ""}${(((price - from) / from) * 100).toFixed(1)}%`
+      rows.push([
+        symbol,
+        `$${crypto ? formatCryptoPrice(price) : formatMoney(price)}`,
+        prevClose ? pct(prevClose) : "n/a",
+        (snap.dailyBar?.v ?? 0).toLocaleString("en-US", { maximumFractionDigits: crypto ? 2 : 0 }),
+        range && Number.isFinite(high) ? pct(high) : "n/a",
+        range && Number.isFinite(low) ? pct(low) : "n/a",
+      ])
+    })
+
+    const widths = header.map((h, c) => Math.max(h.length, ...rows.map(r => r[c].length)))
+    const format = (r: string[]) => r.map((cell, c) => c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c])).join("  ").trimEnd()
+    return [
+      `${wl.name} — ${symbols.length} symbols [${label}]`,
+      ``,
+      format(header),
+      widths.map(w => "─".repeat(w)).join("  "),
+      ...rows.map(format),
+    ].join("\n")
+  }
+
+  // ── Price alerts ──
+
+  let alertStore: AlertStore | null = null
+  function getAlertStore(): AlertStore {
+    alertStore ??= new AlertStore(asSqlDatabase(ctx.getDb()))
+    return alertStore
+  }
+
+  /** "Holding 10 [PAPER], -5 [LIVE]" for each account with a position in the symbol */
+  async function positionSummary(symbols: string[]): Promise<Map<string, string>> {
+    const held = new Map<string, string[]>()
+    for (const mode of ["paper", "live"] as const) {
+      const client = mode === "paper" ? getPaperClient() : getLiveClient()
+      if (!client) continue
+      try {
+        for (const p of await client.getPositions()) {
+          const sym = normalizeSymbol(p.symbol)
+          if (!symbols.includes(sym)) continue
+          held.set(sym, [...(held.get(sym) || []), `${p.qty} [${modeLabel(mode)}]`])
+        }
+      } catch (e) {
+        ctx.log.warn(`Could not load ${mode} positions for alert context:`, e)
+      }
+    }
+    return new Map([...held].map(([sym, parts]) => [sym, `Holding ${parts.join(", ")}`]))
+  }
+
+  async function checkAlerts(): Promise<void> {
+    const alerts = getAlertStore().active()
+    if (alerts.length === 0) return
+    const client = getPaperClient() || getLiveClient()
+    if (!client) return
+
+    const symbols = [...new Set(alerts.map(a => a.symbol))]
+    const triggered: Array<{ alert: Alert; price: number; prevClose: number }> = []
+
+    for (let i = 0; i < symbols.length; i += ALERT_BATCH_SIZE) {
+      const batch = symbols.slice(i, i + ALERT_BATCH_SIZE)
+      const snaps = await client.getSnapshots(batch)
+      for (const alert of alerts.filter(a => batch.includes(a.symbol))) {
+        const snap = snaps[alert.symbol]
+        if (!snap?.latestTrade) continue
+        const market = {
+          price: snap.latestTrade.p,
+          prevClose: snap.prevDailyBar?.c ?? 0,
+          volume: snap.dailyBar?.v ?? 0,
+          prevVolume: snap.prevDailyBar?.v ?? 0,
+        }
+        const met = conditionMet(alert, market)
+        if (alert.armed && met) {
+          triggered.push({ alert, price: market.price, prevClose: market.prevClose })
+        } else if (waitsToClear(alert) && !met) {
+          getAlertStore().rearm(alert.id)
+        }
+      }
+    }
+
+    if (triggered.length === 0) return
+    const holdings = await positionSummary([...new Set(triggered.map(t => t.alert.symbol))])
+    const lines = [`Price alert${triggered.length > 1 ? "s" : ""} triggered:`]
+    for (const { alert, price, prevClose } of triggered) {
+      const change = prevClose ? ` (${price >= prevClose ? "+" : ""}${(((price - prevClose) / prevClose) * 100).toFixed(2)}% today)` : ""
+      lines.push(
+        `- #${alert.id} ${describeAlert(alert)} — now $${formatMoney(price)}${change}${alert.rearm ? "" : " [one-shot, now spent]"}`,
+        ...(alert.note ? [`  Note: ${alert.note}`] : []),
+        ...(holdings.has(alert.symbol) ? [`  ${holdings.get(alert.symbol)}`] : []),
+      )
+    }
+    // Alerts are spent only once the user has heard about them; a failed send leaves them armed for the next check
+    try {
+      await ctx.sendClaudeMessage(lines.join("\n"))
+    } catch (e) {
+      ctx.log.error("Failed to send price alerts:", e)
+      return
+    }
+    for (const { alert } of triggered) getAlertStore().markTriggered(alert.id)
+  }
+
+  // ── Trade journal ──
+
+  let journal: JournalStore | null = null
+  function getJournal(): JournalStore {
+    journal ??= new JournalStore(asSqlDatabase(ctx.getDb()))
+    return journal
+  }
+
+  /** Records a submitted order. Journal failures are logged, never surfaced — the order is already live. */
+  function journalOrder(
+    mode: "paper" | "live",
+    tool: string,
+    args: Record<string, unknown>,
+    result: AlpacaOrder,
+    opts: { symbol?: string; side?: string; linkIdea?: boolean } = {},
+  ) {
+    try {
+      const { confirmation_token: _token, rationale, tags, ...rest } = args
+      const entry = getJournal().record({
+        mode,
+        tool,
+        symbol: opts.symbol ?? result.symbol,
+        side: result.side || opts.side || "",
+        qty: result.qty ?? null,
+        order_id: result.id,
+        status: result.status,
+        multiplier: contractMultiplier(result.asset_class as AssetClass),
+        rationale: (rationale as string) || null,
+        tags: formatTags(tags as string[] | undefined),
+        args: JSON.stringify(rest),
+      }, opts.linkIdea ?? true)
+      // Take-profit and stop-loss legs fill under their own IDs and close the same idea
+      if (entry.idea_id && result.legs?.length) {
+        getJournal().recordLegs(entry, result.legs.map(leg => ({ order_id: leg.id, side: leg.side, qty: leg.qty, status: leg.status })))
+      }
+    } catch (e) {
+      ctx.log.warn(`Could not journal order ${result.id}:`, e)
+    }
+  }
+
+  // ── Trade update stream ──
+
+  function onTradeUpdate(mode: "paper" | "live", update: TradeUpdate) {
+    try { getJournal().applyOrderUpdate(update.order) }
+    catch (e) { ctx.log.warn("Could not update journal from trade update:", e) }
+
+    const setting = TRADE_UPDATE_FILTERS[update.event]
+    if (!setting || ctx.getSetting<boolean>(setting) === false) return
+    ctx.sendClaudeMessage(formatTradeUpdate(modeLabel(mode), update))
+      .catch(e => ctx.log.error("Failed to forward trade update:", e))
+  }
+
+  for (const stream of tradeStreams) stream.stop()
+  tradeStreams = []
+  if (ctx.getSetting<boolean>("streamTradeUpdates") !== false) {
+    for (const mode of ["paper", "live"] as const) {
+      const apiKey = ctx.getSetting<string>(`${mode}ApiKey`)
+      const secretKey = ctx.getSetting<string>(`${mode}SecretKey`)
+      if (!apiKey || !secretKey) continue
+      const stream = new TradeUpdateStream({
+        url: mode === "paper" ? PAPER_STREAM_URL : LIVE_STREAM_URL,
+        apiKey,
+        secretKey,
+        log: ctx.log,
+        onUpdate: (update) => onTradeUpdate(mode, update),
+      })
+      stream.start()
+      tradeStreams.push(stream)
+    }
+  }
+
+  function getRiskLimits(mode: "paper" | "live"): RiskLimits {
+    const num = (key: string) => Number(ctx.getSetting(key)) || 0
+    return {
+      maxOrderNotional: num(`${mode}MaxOrderNotional`),
+      maxPositionPct: num(`${mode}MaxPositionPct`),
+      maxOpenPositions: num(`${mode}MaxOpenPositions`),
+      allowSymbols: parseSymbolList(ctx.getSetting<string>(`${mode}SymbolAllowlist`)),
+      denySymbols: parseSymbolList(ctx.getSetting<string>(`${mode}SymbolDenylist`)),
+    }
+  }
+
+  /**
+   * Runs the risk engine for an order about to be submitted. Returns the
+   * rejection message, or null when the order may go through.
+   */
+  async function checkRisk(
+    mode: "paper" | "live",
+    client: AlpacaClient,
+    order: OrderIntent,
+  ): Promise<string | null> {
+    const limits = getRiskLimits(mode)
+    if (!hasActiveLimits(limits)) return null
+
+    let value = order.notional ?? 0
+    if (order.qty) {
+      const price = order.price || await estimatePrice(client, order)
+      if (!price) return `Order rejected [${modeLabel(mode)}]: no price available for ${order.symbol} to evaluate risk limits`
+      value = order.qty * price * contractMultiplier(order.assetClass)
+    }
+
+    const needsAccount = limits.maxPositionPct > 0
+    const [account, positions] = await Promise.all([
+      needsAccount ? client.getAccount() : Promise.resolve(null),
+      client.getPositions(),
+    ])
+
+    const violation = evaluateOrder(limits, { symbol: order.symbol, side: order.side, value, multiLeg: !!order.legs }, {
+      equity: account ? parseFloat(account.equity) : 0,
+      positions: positions.map(p => ({ symbol: p.symbol, marketValue: parseFloat(p.market_value) })),
+    })
+    if (!violation) return null
+    return `Order rejected by risk rule "${violation.rule}" [${modeLabel(mode)}]: ${violation.message}`
+  }
+
+  const assetCache = new Map<string, { asset: AlpacaAsset; fetchedAt: number }>()
+
+  async function getAssetCached(client: AlpacaClient, symbol: string): Promise<AlpacaAsset> {
+    const cached = assetCache.get(symbol)
+    if (cached && Date.now() - cached.fetchedAt < ASSET_CACHE_TTL_MS) return cached.asset
+    const asset = await client.getAsset(symbol)
+    assetCache.set(symbol, { asset, fetchedAt: Date.now() })
+    return asset
+  }
+
+  /**
+   * Rejects orders Alpaca would refuse for the asset itself: unknown or
+   * untradable symbols, fractional qty on non-fractionable stocks, new shorts
+   * in hard-to-borrow names, crypto below its minimum size. Returns a
+   * rejection message or null. Lookup failures other than an unknown symbol
+   * let the order through to Alpaca rather than blocking it.
+   */
+  async function checkAsset(
+    mode: "paper" | "live",
+    client: AlpacaClient,
+    order: OrderIntent,
+    timeInForce?: string,
+  ): Promise<string | null> {
+    if (order.assetClass === "us_option") return null
+
+    let asset: AlpacaAsset
+    try {
+      asset = await getAssetCached(client, order.symbol)
+    } catch (e) {
+      if (e instanceof NotFoundError) return `Order rejected [${modeLabel(mode)}]: unknown symbol ${order.symbol} — Alpaca has no asset by that name`
+      ctx.log.warn(`Could not look up asset ${order.symbol}:`, e)
+      return null
+    }
+
+    let heldQty = 0
+    if (order.side === "sell") {
+      const positions = await client.getPositions()
+      const held = positions.find(p => normalizeSymbol(p.symbol) === normalizeSymbol(order.symbol))
+      heldQty = held ? parseFloat(held.qty) : 0
+    }
+
+    const problem = checkTradability(asset, { side: order.side, qty: order.qty, notional: order.notional, timeInForce, heldQty })
+    return problem ? `Order rejected [${modeLabel(mode)}]: ${problem}` : null
+  }
+
+  // Live orders are held here between preview and confirmation, keyed by token
+  const pendingOrders = new Map<string, PendingOrder>()
+  // Live rebalance plans, likewise
+  const pendingRebalances = new Map<string, PendingRebalance>()
+  // Copies into live from paper_to_live mirroring
+  const pendingMirrors = new Map<string, PendingMirror>()
+
+  /** Preview of an order without submitting it: estimated cost, and buying power and position after the fill */
+  async function orderPreviewLines(
+    mode: "paper" | "live",
+    client: AlpacaClient,
+    order: Record<string, unknown>,
+    intent: OrderIntent,
+  ): Promise<string[]> {
+    const [price, account, positions] = await Promise.all([
+      estimatePrice(client, intent),
+      client.getAccount(),
+      client.getPositions(),
+    ])
+    const multiplier = contractMultiplier(intent.assetClass)
+    const qty = intent.qty ?? (intent.notional && price ? intent.notional / price : 0)
+    const cost = intent.notional ?? qty * price * multiplier
+
+    const heldQtyOf = (symbol: string) => {
+      const held = positions.find(p => normalizeSymbol(p.symbol) === normalizeSymbol(symbol))
+      return held ? parseFloat(held.qty) : 0
+    }
+    const positionLine = (symbol: string, side: "buy" | "sell", legQty: number) => {
+      const before = heldQtyOf(symbol)
+      const after = side === "buy" ? before + legQty : before - legQty
+      return `${before} → ${Number(after.toFixed(9))} ${symbol}`
+    }
+    const heldQty = intent.legs ? 0 : heldQtyOf(intent.symbol)
+    // Selling out of a long frees buying power; buying or shorting consumes it
+    const closing = intent.side === "sell" ? Math.min(qty, Math.max(heldQty, 0)) : Math.min(qty, Math.max(-heldQty, 0))
+    const bpDelta = closing * price * multiplier - (qty - closing) * price * multiplier
+    const buyingPower = parseFloat(account.buying_power)
+
+    return [
+      `ORDER PREVIEW [${modeLabel(mode)}] — NOT SUBMITTED`,
+      `${intent.side.toUpperCase()} ${intent.qty ?? "$" + formatMoney(cost)} ${intent.symbol}`,
+      `Type: ${order.type} | TIF: ${order.time_in_force}`,
+      order.limit_price ? `Limit: $${formatMoney(order.limit_price as string)}` : null,
+      order.stop_price ? `Stop: $${formatMoney(order.stop_price as string)}` : null,
+      order.order_class ? `Class: ${order.order_class}` : null,
+      order.take_profit ? `Take Profit: $${formatMoney((order.take_profit as { limit_price: string }).limit_price)}` : null,
+      order.stop_loss ? `Stop Loss: $${formatMoney((order.stop_loss as { stop_price: string }).stop_price)}` : null,
+      ``,
+      price ? `${intent.legs ? "Net Mid Price" : "Latest Price"}: $${formatMoney(price)}` : `Latest Price: N/A`,
+      `Estimated Cost: $${formatMoney(cost)}`,
+      `Buying Power: $${formatMoney(buyingPower)} → $${formatMoney(buyingPower + bpDelta)}`,
+      ...(intent.legs
+        ? [`Positions:`, ...intent.legs.map(l => `  ${l.side.toUpperCase()} ${l.ratio * qty}: ${positionLine(l.symbol, l.side, l.ratio * qty)}`)]
+        : [`Position: ${positionLine(intent.symbol, intent.side, qty)}`]),
+    ].filter(line => line !== null)
+  }
+
+  async function previewOrder(
+    mode: "paper" | "live",
+    client: AlpacaClient,
+    tool: string,
+    order: Record<string, unknown>,
+    intent: OrderIntent,
+  ): Promise<string> {
+    const lines = await orderPreviewLines(mode, client, order, intent)
+    const token = crypto.randomUUID().split("-")[0]
+    pendingOrders.set(token, { tool, mode, order, expiresAt: Date.now() + CONFIRM_TTL_MS })
+    return [
+      ...lines,
+      ``,
+      `Confirmation token: ${token} (expires in ${CONFIRM_TTL_MS / 60000} minutes)`,
+      `To submit, call ${tool} again with the same arguments plus confirmation_token: "${token}".`,
+    ].join("\n")
+  }
+
+  // ── Order placement ──
+
+  /** Shared by alpaca_place_order and alpaca_position_size, which hands its sized orders over here */
+  async function placeStockOrder(args: Record<string, unknown>) {
+    try {
+      const mode = args.mode as "paper" | "live"
+      const order: Record<string, unknown> = {
+        symbol: (args.symbol as string).toUpperCase(),
+        side: args.side || "buy",
+        qty: String(args.qty),
+        type: args.order_type || "market",
+        time_in_force: args.time_in_force || "day",
+      }
+      if (args.limit_price) order.limit_price = String(args.limit_price)
+      if (args.stop_price) order.stop_price = String(args.stop_price)
+      if (args.trail_percent) order.trail_percent = String(args.trail_percent)
+      if (args.trail_price) order.trail_price = String(args.trail_price)
+      if (args.extended_hours) order.extended_hours = true
+
+      const client = getClient(mode)
+      const orderClass = (args.order_class as OrderClass) || "simple"
+      const legs = {
+        takeProfit: args.take_profit_price as number | undefined,
+        stopLoss: args.stop_loss_price as number | undefined,
+        stopLossLimit: args.stop_loss_limit_price as number | undefined,
+      }
+      // OCO orders are exits, so their legs are checked against the current price
+      let entryPrice = orderClass === "oco" ? undefined : (args.limit_price || args.stop_price) as number | undefined
+      if (orderClass !== "simple") {
+        if (orderClass === "oco") order.type = "limit"
+        if (args.extended_hours) return err("Extended hours are not supported for bracket, OCO or OTO orders.")
+        entryPrice ??= await latestPrice(client, "us_equity", order.symbol as string)
+      }
+      const invalid = validateOrderLegs(orderClass, order.side as "buy" | "sell", order.time_in_force as string, entryPrice ?? 0, legs)
+      if (invalid) return err(invalid)
+      Object.assign(order, buildLegFields(orderClass, legs))
+
+      const intent: OrderIntent = {
+        symbol: order.symbol as string,
+        side: order.side as "buy" | "sell",
+        assetClass: "us_equity",
+        qty: args.qty as number,
+        price: entryPrice,
+      }
+      const untradable = await checkAsset(mode, client, intent, order.time_in_force as string)
+      if (untradable) return err(untradable)
+      const rejection = await checkRisk(mode, client, intent)
+      if (rejection) return err(rejection)
+
+      const gate = await confirmGate(mode, client, "alpaca_place_order", order, intent, args.confirmation_token)
+      if (gate) return gate
+
+      const result = await client.placeOrder(order)
+      journalOrder(mode, "alpaca_place_order", args, result)
+      const mirrored = await mirrorOrder(mode, "alpaca_place_order", args, order, result, intent)
+
+      const lines = [
+        `Order Placed [${mode.toUpperCase()}]`,
+        `${result.side.toUpperCase()} ${result.qty} ${result.symbol}`,
+        `Type: ${result.order_type} | TIF: ${result.time_in_force}${orderClass !== "simple" ? ` | Class: ${orderClass}` : ""}`,
+        result.limit_price ? `Limit: $${formatMoney(result.limit_price)}` : null,
+        result.stop_price ? `Stop: $${formatMoney(result.stop_price)}` : null,
+        legs.takeProfit ? `Take Profit: $${formatMoney(legs.takeProfit)}` : null,
+        legs.stopLoss ? `Stop Loss: $${formatMoney(legs.stopLoss)}${legs.stopLossLimit ? ` (limit $${formatMoney(legs.stopLossLimit)})` : ""}` : null,
+        `Status: ${result.status}`,
+        `Order ID: ${result.id}`,
+        mirrored,
+      ].filter(Boolean)
+
+      return ok(lines.join("\n"))
+    } catch (e) { return err(e) }
+  }
+
+  // ── Mirroring ──
+
+  function getMirrorDirection(): MirrorDirection {
+    return parseMirrorDirection(ctx.getSetting<string>("mirrorDirection"))
+  }
+
+  function getMirrorScale(): number {
+    const scale = Number(ctx.getSetting("mirrorScale"))
+    return scale > 0 ? scale : 1
+  }
+
+  /**
+   * Copies an order just submitted on `mode` to the other account when
+   * mirroring runs in that direction. The copy is scaled by mirrorScale and
+   * passes the target account's asset and risk checks. A copy into live is
+   * confirmed like any live order: it is previewed and held for
+   * alpaca_confirm_mirror instead of submitted. Returns the text for the tool
+   * output, or null when the order is not mirrored. A failed copy is
+   * reported, never thrown — the source order is already in.
+   */
+  async function mirrorOrder(
+    mode: "paper" | "live",
+    tool: string,
+    args: Record<string, unknown>,
+    order: Record<string, unknown>,
+    source: AlpacaOrder,
+    intent: OrderIntent,
+    journalOpts: { symbol?: string; side?: string; linkIdea?: boolean } = {},
+  ): Promise<string | null> {
+    const target = mirrorTarget(getMirrorDirection(), mode)
+    if (!target) return null
+    const label = `Mirror → ${modeLabel(target)}`
+    try {
+      const client = target === "paper" ? getPaperClient() : getLiveClient()
+      if (!client) return `${label} skipped: credentials not configured`
+
+      const scale = getMirrorScale()
+      const body = scaleOrderBody(order, scale, intent.assetClass)
+      if (!body) return `${label} skipped: size rounds to zero at scale ${scale}`
+      body.client_order_id = mirrorClientOrderId(source.id)
+
+      const scaled: OrderIntent = {
+        ...intent,
+        qty: body.qty !== undefined ? parseFloat(body.qty as string) : undefined,
+        notional: body.notional !== undefined ? parseFloat(body.notional as string) : undefined,
+      }
+      const untradable = await checkAsset(target, client, scaled, body.time_in_force as string | undefined)
+      if (untradable) return `${label} skipped: ${untradable}`
+      const rejection = await checkRisk(target, client, scaled)
+      if (rejection) return `${label} skipped: ${rejection}`
+
+      if (target === "live") {
+        const pending: PendingMirror = { kind: "order", sourceId: source.id, tool, args, intent: scaled, body, journalOpts, expiresAt: Date.now() + CONFIRM_TTL_MS }
+        return `${label}: ${await holdLiveMirror(client, pending, body)}`
+      }
+      return `${label}: ${await placeMirrorCopy(target, client, { sourceId: source.id, tool, args, body, journalOpts })}`
+    } catch (e) {
+      ctx.log.warn(`Could not mirror order ${source.id} to ${target}:`, e)
+      return `${label} failed: ${summarizeError(e)}`
+    }
+  }
+
+  /** Submits a mirrored copy and journals it; returns the line to report */
+  async function placeMirrorCopy(
+    target: "paper" | "live",
+    client: AlpacaClient,
+    copy: { sourceId: string; tool: string; args: Record<string, unknown>; body: Record<string, unknown>; journalOpts: { symbol?: string; side?: string; linkIdea?: boolean } },
+  ): Promise<string> {
+    const result = await client.placeOrder(copy.body)
+    journalOrder(target, copy.tool, { ...copy.args, mirror_of: copy.sourceId }, result, copy.journalOpts)
+    const size = result.qty ?? `$${formatMoney(copy.body.notional as string)}`
+    return `${result.side.toUpperCase()} ${size} ${copy.journalOpts.symbol ?? result.symbol} — ${result.status} (ID: ${result.id})`
+  }
+
+  /** Holds a copy into live until alpaca_confirm_mirror submits it; returns its preview and token */
+  async function holdLiveMirror(client: AlpacaClient, pending: PendingMirror, preview: Record<string, unknown>): Promise<string> {
+    const now = Date.now()
+    for (const [key, held] of pendingMirrors) {
+      if (held.expiresAt <= now) pendingMirrors.delete(key)
+    }
+    const lines = await orderPreviewLines("live", client, preview, pending.intent)
+    const token = crypto.randomUUID().split("-")[0]
+    pendingMirrors.set(token, pending)
+    return [
+      `awaiting confirmation`,
+      ...lines.map(line => line && `  ${line}`),
+      ``,
+      `  Confirmation token: ${token} (expires in ${CONFIRM_TTL_MS / 60000} minutes)`,
+      `  To submit the copy, call alpaca_confirm_mirror with confirmation_tokens: ["${token}"].`,
+    ].join("\n")
+  }
+
+  /**
+   * Submits a held copy into live. The source must still be working or
+   * filled, and the live checks run again since the account may have moved
+   * since the preview. Returns the line to report.
+   */
+  async function submitLiveMirror(pending: PendingMirror): Promise<string> {
+    const client = getClient("live")
+    const source = await getClient("paper").getOrder(pending.sourceId)
+    if (source.status === "canceled" || source.status === "expired" || source.status === "rejected") {
+      return `not submitted — paper order ${source.id} is ${source.status}`
+    }
+
+    if (pending.kind === "replace") {
+      const rejection = await checkRisk("live", client, pending.intent)
+      if (rejection) return `copy not replaced — ${rejection}`
+      const replaced = await client.replaceOrder(pending.copyId, pending.changes)
+      try {
+        getJournal().replaceOrderId(pending.copyId, replaced.id, JSON.stringify({ ...pending.args, replaced: pending.copyId, mirror_of: pending.sourceId }))
+      } catch (e) {
+        ctx.log.warn("Could not update journal for replaced mirror order:", e)
+      }
+      return `copy ${pending.copyId} replaced (new ID: ${replaced.id})`
+    }
+
+    const untradable = await checkAsset("live", client, pending.intent, pending.body.time_in_force as string | undefined)
+    if (untradable) return `not submitted — ${untradable}`
+    const rejection = await checkRisk("live", client, pending.intent)
+    if (rejection) return `not submitted — ${rejection}`
+    return placeMirrorCopy("live", client, pending)
+  }
+
+  /** Forgets held live copies of a cancelled source order, or of every order; returns how many */
+  function dropPendingMirrors(sourceId?: string): number {
+    let dropped = 0
+    for (const [key, pending] of pendingMirrors) {
+      if (sourceId && pending.sourceId !== sourceId) continue
+      pendingMirrors.delete(key)
+      dropped++
+    }
+    return dropped
+  }
+
+  /** The mirror account's copy of a source order, or null if there is none */
+  async function findMirrorOrder(client: AlpacaClient, sourceOrderId: string): Promise<AlpacaOrder | null> {
+    try {
+      return await client.getOrderByClientId(mirrorClientOrderId(sourceOrderId))
+    } catch (e) {
+      if (e instanceof NotFoundError) return null
+      throw e
+    }
+  }
+
+  /**
+   * Applies a position close, order replace or cancel on `mode` to the mirror
+   * account. `action` gets the mirror client and returns the line to report.
+   */
+  async function mirrorAction(
+    mode: "paper" | "live",
+    action: (client: AlpacaClient, target: "paper" | "live") => Promise<string>,
+  ): Promise<string | null> {
+    const target = mirrorTarget(getMirrorDirection(), mode)
+    if (!target) return null
+    const label = `Mirror → ${modeLabel(target)}`
+    try {
+      const client = target === "paper" ? getPaperClient() : getLiveClient()
+      if (!client) return `${label} skipped: credentials not configured`
+      return `${label}: ${await action(client, target)}`
+    } catch (e) {
+      ctx.log.warn(`Could not mirror to ${target}:`, e)
+      return `${label} failed: ${summarizeError(e)}`
+    }
+  }
+
+  // ── Rebalancing ──
+
+  /** Loads targets, holdings, assets and prices and plans the rebalance. */
+  async function buildRebalance(client: AlpacaClient, args: Record<string, unknown>): Promise<RebalanceContext> {
+    let targets: Record<string, number>
+    if (args.targets && Object.keys(args.targets as object).length) {
+      targets = normalizeTargets(args.targets as Record<string, number>)
+    } else if (args.watchlist) {
+      const wl = await client.getWatchlistByName(args.watchlist as string)
+      if (wl.assets.length === 0) throw new Error(`Watchlist "${wl.name}" is empty.`)
+      targets = equalWeights(wl.assets.map(a => a.symbol))
+    } else {
+      throw new Error("Pass targets (symbol → percent) or a watchlist name to weight equally.")
+    }
+
+    const [account, positions] = await Promise.all([client.getAccount(), client.getPositions()])
+    // Options can't be rebalanced by weight; leave them out entirely
+    const held = positions.filter(p => p.asset_class !== "us_option")
+
+    const lookup: Record<string, string> = {}
+    for (const symbol of Object.keys(targets)) lookup[normalizeSymbol(symbol)] = symbol
+    for (const p of held) lookup[normalizeSymbol(p.symbol)] ??= p.symbol
+
+    const assets: Record<string, RebalanceAsset> = {}
+    const orderSymbols: Record<string, string> = {}
+    const classes: Record<string, string> = {}
+    for (const [key, symbol] of Object.entries(lookup)) {
+      let asset: AlpacaAsset
+      try { asset = await getAssetCached(client, symbol) }
+      catch (e) {
+        if (e instanceof NotFoundError) throw new Error(`Unknown symbol ${symbol} — Alpaca has no asset by that name.`)
+        throw e
+      }
+      if (targets[symbol] !== undefined && (asset.status !== "active" || !asset.tradable)) {
+        throw new Error(`${symbol} is not tradable on Alpaca (status: ${asset.status}).`)
+      }
+      classes[key] = asset.class
+      orderSymbols[key] = asset.class === "crypto" ? normalizeCryptoPair(asset.symbol) : asset.symbol
+      assets[key] = {
+        fractionable: asset.fractionable || asset.class === "crypto",
+        minQty: asset.min_order_size ? parseFloat(asset.min_order_size) : undefined,
+        qtyIncrement: asset.min_trade_increment ? parseFloat(asset.min_trade_increment) : undefined,
+      }
+    }
+
+    const heldKeys = new Set(held.map(p => normalizeSymbol(p.symbol)))
+    const unpriced = Object.keys(lookup).filter(k => !heldKeys.has(k))
+    const stocks = unpriced.filter(k => classes[k] !== "crypto").map(k => orderSymbols[k])
+    const cryptos = unpriced.filter(k => classes[k] === "crypto").map(k => orderSymbols[k])
+    const [stockSnaps, cryptoSnaps] = await Promise.all([
+      stocks.length ? client.getSnapshots(stocks) : Promise.resolve({} as Record<string, AlpacaSnapshot>),
+      cryptos.length ? client.getCryptoSnapshots(cryptos) : Promise.resolve({} as Record<string, AlpacaCryptoSnapshot>),
+    ])
+    const prices: Record<string, number> = {}
+    for (const key of unpriced) {
+      const snap = classes[key] === "crypto" ? cryptoSnaps[orderSymbols[key]] : stockSnaps[orderSymbols[key]]
+      prices[key] = snap?.latestTrade?.p || snap?.latestQuote?.ap || 0
+    }
+
+    const keyedTargets: Record<string, number> = {}
+    for (const [symbol, weight] of Object.entries(targets)) keyedTargets[normalizeSymbol(symbol)] = weight
+
+    const equity = parseFloat(account.equity)
+    const cashBuffer = ((args.cash_buffer as number) ?? 2) / 100
+    const minOrderNotional = (args.min_order_notional as number) ?? 1
+    const plan = planRebalance({
+      equity,
+      holdings: held.map(p => ({ symbol: normalizeSymbol(p.symbol), qty: parseFloat(p.qty), price: parseFloat(p.current_price) })),
+      targets: keyedTargets,
+      prices,
+      assets,
+      driftThreshold: ((args.drift_threshold as number) ?? 2) / 100,
+      cashBuffer,
+      minOrderNotional,
+      sellUnlisted: !!args.sell_unlisted,
+    })
+    return { plan, assets, orderSymbols, classes, equity, cashBuffer, minOrderNotional }
+  }
+
+  function rebalanceOrder(rc: RebalanceContext, trade: RebalanceTrade): Record<string, unknown> {
+    const crypto = rc.classes[trade.symbol] === "crypto"
+    return {
+      symbol: rc.orderSymbols[trade.symbol],
+      side: trade.side,
+      qty: String(trade.qty),
+      type: "market",
+      // Fractional stock orders must be day orders; crypto has no day session
+      time_in_force: crypto ? "gtc" : "day",
+    }
+  }
+
+  /** Submits sells, waits briefly for them to fill, then submits the buys that fit in the cash now available. */
+  async function executeRebalance(mode: "paper" | "live", client: AlpacaClient, rc: RebalanceContext, args: Record<string, unknown>): Promise<string[]> {
+    const lines: string[] = []
+    const submit = async (trade: RebalanceTrade): Promise<AlpacaOrder | null> => {
+      const order = rebalanceOrder(rc, trade)
+      const intent: OrderIntent = {
+        symbol: order.symbol as string,
+        side: trade.side,
+        assetClass: rc.classes[trade.symbol] as AssetClass,
+        qty: trade.qty,
+        price: trade.value / trade.qty,
+      }
+      const rejection = await checkRisk(mode, client, intent)
+      if (rejection) { lines.push(`  ✗ ${trade.side.toUpperCase()} ${trade.qty} ${order.symbol}: ${rejection}`); return null }
+      try {
+        const result = await client.placeOrder(order)
+        journalOrder(mode, "alpaca_rebalance", args, result)
+        lines.push(`  ✓ ${trade.side.toUpperCase()} ${trade.qty} ${order.symbol} (~$${formatMoney(trade.value)}) — ${result.status} (ID: ${result.id})`)
+        const mirrored = await mirrorOrder(mode, "alpaca_rebalance", args, order, result, intent)
+        if (mirrored) lines.push(`    ${mirrored}`)
+        return result
+      } catch (e) {
+        lines.push(`  ✗ ${trade.side.toUpperCase()} ${trade.qty} ${order.symbol}: ${summarizeError(e)}`)
+        return null
+      }
+    }
+
+    const sells = rc.plan.trades.filter(t => t.side === "sell")
+    const buys = rc.plan.trades.filter(t => t.side === "buy")
+
+    if (sells.length) lines.push(`Sells:`)
+    const sellOrders: AlpacaOrder[] = []
+    for (const trade of sells) {
+      const result = await submit(trade)
+      if (result) sellOrders.push(result)
+    }
+
+    // Buys are funded by the sells, so give them a chance to fill first
+    const deadline = Date.now() + REBALANCE_SELL_WAIT_MS
+    let open = sellOrders.filter(o => !TERMINAL_ORDER_STATUSES.has(o.status))
+    while (open.length && Date.now() < deadline) {
+      await sleep(1000)
+      const refreshed = await Promise.all(open.map(o => client.getOrder(o.id)))
+      open = refreshed.filter(o => !TERMINAL_ORDER_STATUSES.has(o.status))
+    }
+    if (open.length) lines.push(`  ${open.length} sell order(s) still open after ${REBALANCE_SELL_WAIT_MS / 1000}s; buys are sized to the cash available now.`)
+
+    if (buys.length) {
+      const account = await client.getAccount()
+      const available = Math.min(parseFloat(account.cash), parseFloat(account.buying_power)) - rc.cashBuffer * rc.equity
+      const fitted = fitBuys(buys, available, rc.assets, rc.minOrderNotional)
+      lines.push(`Buys:`)
+      if (fitted !== buys) {
+        lines.push(`  Scaled to $${formatMoney(Math.max(available, 0))} available after the cash buffer`)
+      }
+      for (const trade of fitted) await submit(trade)
+    }
+    return lines
+  }
+
+  // ── Backtesting ──
+
+  /**
+   * Bars for a backtest and the index its window starts at; earlier bars only
+   * warm up the strategy. Source "api" goes through the bar cache like every
+   * other bar fetch; "cache" and "file" never touch the network.
+   */
+  async function loadBacktestBars(args: Record<string, unknown>, warmup: number): Promise<{ bars: OHLCV[]; from: number; label: string }> {
+    const source = (args.source as string) || "api"
+    if (source === "file") {
+      if (!args.file_path) throw new Error(`Pass file_path when source is "file".`)
+      // Only files in the plugin's fixtures directory; the path comes from the model
+      const path = resolve(FIXTURES_DIR, args.file_path as string)
+      const inside = relative(FIXTURES_DIR, path)
+      if (!inside || inside.startsWith("..") || isAbsolute(inside)) {
+        throw new Error(`file_path must name a file in the plugin's fixtures directory (${FIXTURES_DIR}), e.g. "bars.csv".`)
+      }
+      const bars = parseBarFile(await readFile(path, "utf8"))
+      if (bars.length < warmup + 2) {
+        throw new Error(`${args.file_path} has ${bars.length} bars; this strategy needs at least ${warmup + 2} (${warmup} to warm up).`)
+      }
+      return { bars, from: warmup, label: String(args.file_path) }
+    }
+
+    if (!args.symbol) throw new Error(`Pass a symbol, or source "file" with a file_path.`)
+    const symbol = (args.symbol as string).toUpperCase()
+    const timeframe = (args.timeframe as string) || "1Day"
+    const adjustment = (args.adjustment as BarAdjustment) || "all"
+    const days = (args.days as number) || 750
+    const end = args.end as string | undefined
+
+    let client: AlpacaClient | null = null
+    if (source === "api") {
+      client = getPaperClient() || getLiveClient()
+      if (!client) throw new Error(`No trading credentials configured — use source "cache" or "file" to backtest offline`)
+    }
+    const start = (args.start as string)
+      || (client ? await tradingDaysAgo(client, days) : addCalendarDays(exchangeToday(), -Math.ceil(days * 7 / 5)))
+
+    // Pad the start by the warm-up, converted from bars to sessions to calendar days
+    const barMinutes: Record<string, number> = { "1Min": 1, "5Min": 5, "15Min": 15, "1Hour": 60 }
+    const barsPerDay = barMinutes[timeframe] ? Math.floor(390 / barMinutes[timeframe]) : 1
+    const fetchFrom = addCalendarDays(start.slice(0, 10), -Math.ceil((warmup / barsPerDay + 1) * 7 / 5) - 5)
+
+    let bars: OHLCV[]
+    if (client) {
+      bars = await fetchBars(client, symbol, timeframe, fetchFrom, end, adjustment)
+    } else {
+      const cache = getBarCache()
+      if (!cache) throw new Error("The bar cache is unavailable, so there is no stored data to backtest on")
+      bars = cache.bars({ symbol, timeframe, adjustment }, fetchFrom, (end || exchangeToday()).slice(0, 10))
+      if (bars.length === 0) {
+        throw new Error(`No cached ${timeframe} bars for ${symbol} (${adjustment} adjustment) — run the backtest once with source "api" to store them`)
+      }
+    }
+
+    const first = bars.findIndex(b => b.t >= start)
+    if (first < 0 || bars.length - first < 2) throw new Error(`Not enough ${timeframe} bars for ${symbol} since ${start}`)
+    // Symbols with a short history start once the warm-up is covered
+    const from = Math.max(first, Math.min(warmup, bars.length - 2))
+    return { bars, from, label: `${symbol} (${timeframe}, ${adjustment}-adjusted)` }
+  }
+
+  /**
+   * Live orders need two calls: the first returns a preview and a token, the
+   * second (same arguments plus the token) lets the order through. Returns a
+   * tool result to send back instead of submitting, or null to submit.
+   */
+  async function confirmGate(
+    mode: "paper" | "live",
+    client: AlpacaClient,
+    tool: string,
+    order: Record<string, unknown>,
+    intent: OrderIntent,
+    token: unknown,
+  ) {
+    if (mode !== "live") return null
+
+    const now = Date.now()
+    for (const [key, pending] of pendingOrders) {
+      if (pending.expiresAt <= now) pendingOrders.delete(key)
+    }
+
+    if (!token) return ok(await previewOrder(mode, client, tool, order, intent))
+
+    const pending = pendingOrders.get(String(token))
+    if (!pending) return err(`Confirmation token "${token}" is unknown or expired. Call ${tool} without a token to get a new preview.`)
+    if (pending.tool !== tool || pending.mode !== mode || JSON.stringify(pending.order) !== JSON.stringify(order)) {
+      return err(`Order arguments do not match the preview for token "${token}". Call ${tool} without a token to preview the changed order.`)
+    }
+    pendingOrders.delete(String(token))
+    return null
+  }
+
   return {
     routes: () =>
       new Elysia()
-        .get("/accounts", async () => {
+        .get("/accounts", async ({ set }) => {
           const results: Record<string, any> = {}
+          const failures: unknown[] = []
 
-          const paperClient = getPaperClient()
-          if (paperClient) {
-            try { results.paper = await paperClient.getAccount() }
-            catch (e) { results.paper = { error: e instanceof Error ? e.message : String(e) } }
-          } else {
-            results.paper = { error: "Paper trading credentials not configured" }
-          }
-
-          const liveClient = getLiveClient()
-          if (liveClient) {
-            try { results.live = await liveClient.getAccount() }
-            catch (e) { results.live = { error: e instanceof Error ? e.message : String(e) } }
-          } else {
-            results.live = { error: "Live trading credentials not configured" }
+          for (const mode of ["paper", "live"] as const) {
+            try { results[mode] = await getClient(mode).getAccount() }
+            catch (e) {
+              results[mode] = errorBody(e)
+              failures.push(e)
+            }
           }
 
+          // One account is enough for a 200; with neither, answer with the first failure's status
+          if (failures.length === 2) set.status = httpStatusFor(failures[0])
           return results
         })
-        .get("/positions/:mode", async ({ params: { mode } }) => {
+        .get("/positions/:mode", async ({ params: { mode }, set }) => {
           if (mode !== "paper" && mode !== "live") {
+            set.status = 400
             return { error: "Invalid mode. Use 'paper' or 'live'" }
           }
           try { return await getClient(mode).getPositions() }
-          catch (e) { return { error: e instanceof Error ? e.message : String(e) } }
+          catch (e) {
+            set.status = httpStatusFor(e)
+            return errorBody(e)
+          }
         })
-        .get("/orders/:mode", async ({ params: { mode } }) => {
+        .get("/orders/:mode", async ({ params: { mode }, set }) => {
           if (mode !== "paper" && mode !== "live") {
+            set.status = 400
             return { error: "Invalid mode. Use 'paper' or 'live'" }
           }
           try { return await getClient(mode).getOrders() }
-          catch (e) { return { error: e instanceof Error ? e.message : String(e) } }
+          catch (e) {
+            set.status = httpStatusFor(e)
+            return errorBody(e)
+          }
         })
-        .get("/clock", async () => {
+        .get("/clock", async ({ set }) => {
           const client = getPaperClient() || getLiveClient()
-          if (!client) return { error: "No trading credentials configured" }
+          if (!client) {
+            set.status = 503
+            return { error: "No trading credentials configured" }
+          }
           try { return await client.getClock() }
-          catch (e) { return { error: e instanceof Error ? e.message : String(e) } }
+          catch (e) {
+            set.status = httpStatusFor(e)
+            return errorBody(e)
+          }
         }),
 
     tools: [
@@ -451,7 +1822,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                     `DT Buying Power: $${formatMoney(acct.daytrading_buying_power)}`,
                   ])
                 } catch (e) {
-                  results.push(`=== PAPER ACCOUNT ===`, `Error: ${e instanceof Error ? e.message : String(e)}`)
+                  results.push(`=== PAPER ACCOUNT ===`, `Error: ${summarizeError(e)}`)
                 }
               } else {
                 results.push(`=== PAPER ACCOUNT ===`, `Not configured`)
@@ -482,7 +1853,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                     `DT Buying Power: $${formatMoney(acct.daytrading_buying_power)}`,
                   ])
                 } catch (e) {
-                  results.push(`=== LIVE ACCOUNT ===`, `Error: ${e instanceof Error ? e.message : String(e)}`)
+                  results.push(`=== LIVE ACCOUNT ===`, `Error: ${summarizeError(e)}`)
                 }
               } else {
                 results.push(`=== LIVE ACCOUNT ===`, `Not configured`)
@@ -490,7 +1861,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             }
 
             return ok(results.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
@@ -527,14 +1898,14 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               )
             }
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
       {
         definition: {
           name: "alpaca_portfolio_history",
-          description: "Get portfolio equity and P&L history over time. Useful for performance analysis and charting.",
+          description: "Get portfolio equity and P&L history over time with risk and performance analytics: Sharpe, Sortino, max drawdown with dates and recovery time, annualized volatility, best/worst period, win rate, and a drawdown curve.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -545,6 +1916,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               },
               period: { type: "string", description: "History period: 1D, 1W, 1M, 3M, 6M, 1A (1 year), all", enum: ["1D", "1W", "1M", "3M", "6M", "1A", "all"] },
               timeframe: { type: "string", description: "Bar resolution: 1Min, 5Min, 15Min, 1H, 1D", enum: ["1Min", "5Min", "15Min", "1H", "1D"] },
+              risk_free_rate: { type: "number", description: "Annual risk-free rate in percent for Sharpe and Sortino (default: 0)" },
             },
             required: ["mode"]
           },
@@ -563,14 +1935,14 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             const count = hist.timestamp.length
             const latest = hist.equity[count - 1]
             const earliest = hist.equity[0]
-            const totalReturn = ((latest - earliest) / earliest) * 100
+            const periodReturnPct = ((latest - earliest) / earliest) * 100
             const totalPL = hist.profit_loss.reduce((a, b) => a + b, 0)
 
             const lines = [
               `Portfolio History [${mode.toUpperCase()}] — ${period} @ ${timeframe}`,
               `Base Value: $${formatMoney(hist.base_value)}`,
               `Current Equity: $${formatMoney(latest)}`,
-              `Period Return: ${totalReturn >= 0 ? "+" : ""}${totalReturn.toFixed(2)}%`,
+              `Period Return: ${periodReturnPct >= 0 ? "+" : ""}${periodReturnPct.toFixed(2)}%`,
               `Total P&L: ${totalPL >= 0 ? "+" : ""}$${formatMoney(totalPL)}`,
               ``,
               `Last 5 data points:`,
@@ -583,31 +1955,471 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               lines.push(`  ${date}: $${formatMoney(hist.equity[i])} (${pl >= 0 ? "+" : ""}$${formatMoney(pl)})`)
             }
 
+            const perYear = PERIODS_PER_YEAR[timeframe] ?? 252
+            const stats = equityStats(hist.equity, perYear, ((args.risk_free_rate as number) || 0) / 100)
+            if (stats.periods >= 2) {
+              const unit = timeframe === "1D" ? "day" : "period"
+              const at = (i: number) => new Date(hist.timestamp[i] * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+              const pct = (n: number) => `${n >= 0 ? "+" : ""}${(n * 100).toFixed(2)}%`
+              const dd = stats.maxDrawdown
+              const recovery = dd.depth === 0
+                ? "n/a"
+                : dd.recoveryIndex === null
+                  ? "not yet recovered"
+                  : `${at(dd.recoveryIndex)} (${dd.recoveryIndex - dd.troughIndex} ${unit}s from trough, ${Math.round((hist.timestamp[dd.recoveryIndex] - hist.timestamp[dd.troughIndex]) / 86400)} calendar days)`
+
+              lines.push(
+                ``,
+                `Analytics (${stats.periods} ${unit}s):`,
+                `  Sharpe: ${stats.sharpe.toFixed(2)} | Sortino: ${stats.sortino.toFixed(2)}`,
+                `  Volatility (ann.): ${(stats.annualizedVolatility * 100).toFixed(2)}%`,
+                `  Max Drawdown: -${(dd.depth * 100).toFixed(2)}%${dd.depth > 0 ? ` (peak ${at(dd.peakIndex)} → trough ${at(dd.troughIndex)})` : ""}`,
+                `  Recovery: ${recovery}`,
+                stats.best ? `  Best ${unit}: ${pct(stats.best.return)} (${at(stats.best.index)})` : "",
+                stats.worst ? `  Worst ${unit}: ${pct(stats.worst.return)} (${at(stats.worst.index)})` : "",
+                `  Win Rate: ${(stats.winRate * 100).toFixed(1)}% of ${unit}s`,
+              )
+
+              // Sample the drawdown curve down to about a dozen points
+              const curve = drawdownSeries(hist.equity)
+              const step = Math.max(1, Math.ceil(count / 12))
+              lines.push(``, `Drawdown curve:`)
+              for (let i = 0; i < count; i += step) {
+                lines.push(`  ${at(i)}: -${(curve[i] * 100).toFixed(2)}%`)
+              }
+              if ((count - 1) % step !== 0) lines.push(`  ${at(count - 1)}: -${(curve[count - 1] * 100).toFixed(2)}%`)
+            }
+
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
-      // ══════════════════════════════════════════════════════
-      //  MARKET DATA
-      // ══════════════════════════════════════════════════════
-
       {
         definition: {
-          name: "alpaca_quote",
-          description: "Get a real-time stock snapshot: last trade, bid/ask, daily bar, and previous close. Uses Alpaca market data.",
+          name: "alpaca_compare_accounts",
+          description: "Compare paper and live account performance over the same period: return, max drawdown, volatility and tracking difference on aligned portfolio history, plus positions held in one account but not the other. Use before promoting a paper strategy to live.",
           inputSchema: {
             type: "object" as const,
             properties: {
-              symbol: { type: "string", description: "Ticker symbol (e.g. AAPL, TSLA, SPY)" },
+              period: { type: "string", description: "History period: 1D, 1W, 1M, 3M, 6M, 1A (1 year), all (default: 1M)", enum: ["1D", "1W", "1M", "3M", "6M", "1A", "all"] },
+              timeframe: { type: "string", description: "Bar resolution: 1Min, 5Min, 15Min, 1H, 1D (default: 1D)", enum: ["1Min", "5Min", "15Min", "1H", "1D"] },
             },
-            required: ["symbol"],
+            required: []
           },
         },
         handler: async (args) => {
           try {
-            const symbol = (args.symbol as string).toUpperCase()
-            // Market data is same for paper/live - use whichever is configured
+            const period = (args.period as string) || "1M"
+            const timeframe = (args.timeframe as string) || "1D"
+            const paper = getClient("paper")
+            const live = getClient("live")
+
+            const [paperHist, liveHist, paperPositions, livePositions] = await Promise.all([
+              paper.getPortfolioHistory(period, timeframe),
+              live.getPortfolioHistory(period, timeframe),
+              paper.getPositions(),
+              live.getPositions(),
+            ])
+
+            // Line up on timestamps both accounts report with non-zero equity
+            const liveByTime = new Map<number, number>()
+            for (let i = 0; i < (liveHist.timestamp || []).length; i++) {
+              if (liveHist.equity[i]) liveByTime.set(liveHist.timestamp[i], liveHist.equity[i])
+            }
+            const times: number[] = []
+            const paperEq: number[] = []
+            const liveEq: number[] = []
+            for (let i = 0; i < (paperHist.timestamp || []).length; i++) {
+              const l = liveByTime.get(paperHist.timestamp[i])
+              if (paperHist.equity[i] && l) {
+                times.push(paperHist.timestamp[i])
+                paperEq.push(paperHist.equity[i])
+                liveEq.push(l)
+              }
+            }
+
+            const lines = [`Paper vs Live — ${period} @ ${timeframe}`, ``]
+            if (times.length < 2) {
+              lines.push(`Not enough overlapping history to compare (${times.length} shared points).`)
+            } else {
+              const perYear = PERIODS_PER_YEAR[timeframe] ?? 252
+              const day = (t: number) => new Date(t * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+              const pct = (n: number) => `${n >= 0 ? "+" : ""}${(n * 100).toFixed(2)}%`
+              const paperRets = periodReturns(paperEq)
+              const liveRets = periodReturns(liveEq)
+              const paperDd = maxDrawdown(paperEq)
+              const liveDd = maxDrawdown(liveEq)
+              const paperTotal = totalReturn(paperEq)
+              const liveTotal = totalReturn(liveEq)
+              const diffs = paperRets.map((r, i) => r - liveRets[i])
+
+              const row = (label: string, p: string, l: string) => `${label.padEnd(20)}${p.padStart(14)}${l.padStart(14)}`
+              lines.push(
+                `${times.length} aligned points, ${day(times[0])} → ${day(times[times.length - 1])}`,
+                ``,
+                row("", "PAPER", "LIVE"),
+                row("Start Equity", `$${formatMoney(paperEq[0])}`, `$${formatMoney(liveEq[0])}`),
+                row("End Equity", `$${formatMoney(paperEq[paperEq.length - 1])}`, `$${formatMoney(liveEq[liveEq.length - 1])}`),
+                row("Return", pct(paperTotal), pct(liveTotal)),
+                row("Max Drawdown", `-${(paperDd.depth * 100).toFixed(2)}%`, `-${(liveDd.depth * 100).toFixed(2)}%`),
+                row("Volatility (ann.)", `${(annualizedVolatility(paperRets, perYear) * 100).toFixed(2)}%`, `${(annualizedVolatility(liveRets, perYear) * 100).toFixed(2)}%`),
+                ``,
+                `Tracking Difference (paper − live): ${pct(paperTotal - liveTotal)}`,
+                `Tracking Error (ann.): ${(stdev(diffs) * Math.sqrt(perYear) * 100).toFixed(2)}%`,
+              )
+            }
+
+            const paperBySym = new Map(paperPositions.map(p => [normalizeSymbol(p.symbol), p]))
+            const liveBySym = new Map(livePositions.map(p => [normalizeSymbol(p.symbol), p]))
+            const onlyPaper = paperPositions.filter(p => !liveBySym.has(normalizeSymbol(p.symbol)))
+            const onlyLive = livePositions.filter(p => !paperBySym.has(normalizeSymbol(p.symbol)))
+            const both = paperPositions.filter(p => liveBySym.has(normalizeSymbol(p.symbol)))
+
+            lines.push(``, `Positions:`)
+            lines.push(`  Only in PAPER: ${onlyPaper.length ? onlyPaper.map(p => `${p.symbol} (${p.qty})`).join(", ") : "none"}`)
+            lines.push(`  Only in LIVE: ${onlyLive.length ? onlyLive.map(p => `${p.symbol} (${p.qty})`).join(", ") : "none"}`)
+            if (both.length > 0) {
+              lines.push(`  In both (paper qty / live qty):`)
+              for (const p of both) {
+                const l = liveBySym.get(normalizeSymbol(p.symbol)) as AlpacaPosition
+                lines.push(`    ${p.symbol}: ${p.qty} / ${l.qty}`)
+              }
+            }
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_confirm_mirror",
+          description: "Submit copies into LIVE that paper_to_live mirroring is holding for confirmation. Each mirrored paper order or replacement returns a live preview and a token instead of reaching the live account; pass the tokens here once the user has confirmed. Asset and risk checks run again before each copy is sent.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              confirmation_tokens: { type: "array", items: { type: "string" }, description: "Tokens from the mirror previews" },
+            },
+            required: ["confirmation_tokens"]
+          },
+        },
+        handler: async (args) => {
+          try {
+            const tokens = args.confirmation_tokens as string[]
+            if (!Array.isArray(tokens) || tokens.length === 0) return err("confirmation_tokens must list at least one token")
+
+            const now = Date.now()
+            const lines: string[] = []
+            for (const token of tokens) {
+              const pending = pendingMirrors.get(String(token))
+              if (!pending || pending.expiresAt <= now) {
+                pendingMirrors.delete(String(token))
+                lines.push(`${token}: unknown or expired — place or replace the paper order again for a new preview`)
+                continue
+              }
+              pendingMirrors.delete(String(token))
+              try {
+                lines.push(`${token}: ${await submitLiveMirror(pending)}`)
+              } catch (e) {
+                ctx.log.warn(`Could not submit mirrored copy of ${pending.sourceId}:`, e)
+                lines.push(`${token}: failed — ${summarizeError(e)}`)
+              }
+            }
+            return ok(`Mirror → ${modeLabel("live")}\n${lines.join("\n")}`)
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_mirror_reconcile",
+          description: "Reconciliation report for account mirroring: compares each position in the source account, scaled by the mirror scale, with what the mirror account actually holds, and lists open source orders that have no mirrored copy. Use it to see where paper and live have drifted apart.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              source: { type: "string", description: "Account being mirrored (default: the source of the mirrorDirection setting, or live when mirroring is off)", enum: ["paper", "live"] },
+              scale: { type: "number", description: "Expected mirror size relative to the source (default: the mirrorScale setting)" },
+              show_in_sync: { type: "boolean", description: "Also list symbols that match (default: false)" },
+            },
+            required: []
+          },
+        },
+        handler: async (args) => {
+          try {
+            const direction = getMirrorDirection()
+            const sourceMode = (args.source as "paper" | "live") || (direction === "paper_to_live" ? "paper" : "live")
+            const targetMode = sourceMode === "live" ? "paper" : "live"
+            const scale = (args.scale as number) > 0 ? (args.scale as number) : getMirrorScale()
+            const source = getClient(sourceMode)
+            const target = getClient(targetMode)
+
+            const [sourceAccount, targetAccount, sourcePositions, targetPositions, sourceOrders, targetOrders] = await Promise.all([
+              source.getAccount(),
+              target.getAccount(),
+              source.getPositions(),
+              target.getPositions(),
+              source.getOrders("open", 500),
+              target.getOrders("open", 500),
+            ])
+            const holdings = (positions: AlpacaPosition[]) => positions.map(p => ({
+              symbol: p.symbol,
+              qty: parseFloat(p.qty),
+              price: parseFloat(p.current_price),
+              assetClass: p.asset_class,
+            }))
+            const rows = reconcilePositions(holdings(sourcePositions), holdings(targetPositions), scale)
+            const drifted = rows.filter(r => r.status !== "in_sync")
+
+            const src = modeLabel(sourceMode)
+            const tgt = modeLabel(targetMode)
+            const active = mirrorTarget(direction, sourceMode) === targetMode
+            const sourceEquity = parseFloat(sourceAccount.equity)
+            const targetEquity = parseFloat(targetAccount.equity)
+            const lines = [
+              `Mirror Reconciliation — ${src} → ${tgt} at ${scale}x`,
+              `Mirroring: ${active ? "on" : `off in this direction (mirrorDirection: ${direction})`}`,
+              `Equity: ${src} $${formatMoney(sourceEquity)} | ${tgt} $${formatMoney(targetEquity)}${sourceEquity > 0 ? ` (${(targetEquity / sourceEquity).toFixed(2)}x)` : ""}`,
+              ``,
+            ]
+
+            if (rows.length === 0) {
+              lines.push(`Neither account holds any positions.`)
+            } else {
+              const shown = args.show_in_sync ? rows : drifted
+              const grossDrift = drifted.reduce((sum, r) => sum + Math.abs(r.driftValue), 0)
+              lines.push(`Positions: ${rows.length - drifted.length} of ${rows.length} in sync | Gross drift: $${formatMoney(grossDrift)}`)
+              if (shown.length > 0) {
+                const qty = (n: number) => String(Number(n.toFixed(6)))
+                const row = (cells: string[]) => `  ${cells[0].padEnd(22)}${cells.slice(1, 5).map(c => c.padStart(12)).join("")}${cells[5].padStart(14)}  ${cells[6]}`
+                lines.push(``, row(["Symbol", src, tgt, "Expected", "Drift", "Drift $", "Status"]))
+                const statusLabel: Record<string, string> = {
+                  in_sync: "in sync",
+                  drifted: "drifted",
+                  missing: `missing in ${tgt}`,
+                  extra: `only in ${tgt}`,
+                }
+                for (const r of shown) {
+                  const driftValue = `${r.driftValue >= 0 ? "+" : "-"}$${formatMoney(Math.abs(r.driftValue))}`
+                  lines.push(row([r.symbol, qty(r.sourceQty), qty(r.targetQty), qty(r.expectedQty), `${r.drift > 0 ? "+" : ""}${qty(r.drift)}`, driftValue, statusLabel[r.status]]))
+                }
+              }
+            }
+
+            // Source orders still working whose copy never made it (or was already filled or cancelled)
+            const copied = new Set(targetOrders.filter(o => isMirrorOrder(o.client_order_id)).map(o => o.client_order_id))
+            const uncopied = sourceOrders.filter(o => !copied.has(mirrorClientOrderId(o.id)))
+            lines.push(``, `Open ${src} orders without an open ${tgt} copy: ${uncopied.length || "none"}`)
+            for (const o of uncopied.slice(0, 20)) {
+              lines.push(`  ${o.side.toUpperCase()} ${o.qty ?? ""} ${o.symbol} (${o.order_type}, ${o.status}) — ${o.id}`)
+            }
+            if (uncopied.length > 20) lines.push(`  …and ${uncopied.length - 20} more`)
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_realized_pnl",
+          description: "Realized P&L and tax-lot report. Rebuilds lots from the account's FILL activities using FIFO, LIFO or specific-lot matching, splits realized gains into short-term and long-term by year, and flags wash sales (losses with a buy of the same symbol within 30 days). Can output CSV for an accountant.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              method: { type: "string", description: "Lot matching method (default: fifo)", enum: ["fifo", "lifo", "specific"] },
+              lot_selection: { type: "object", description: "For method=specific: map of closing order ID to the opening order IDs whose lots it should consume first. Unlisted closes fall back to FIFO.", additionalProperties: { type: "array", items: { type: "string" } } },
+              year: { type: "number", description: "Only report sales closed in this year" },
+              start_date: { type: "string", description: "Only report sales on or after YYYY-MM-DD" },
+              end_date: { type: "string", description: "Only report sales on or before YYYY-MM-DD" },
+              symbol: { type: "string", description: "Only report this symbol" },
+              format: { type: "string", description: "summary (default) or csv (one row per closed lot)", enum: ["summary", "csv"] },
+            },
+            required: ["mode"]
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const method = (args.method as LotMethod) || "fifo"
+
+            // Lots must be rebuilt from the first fill, whatever range is reported
+            const { activities, truncated } = await getClient(mode).getAllActivities(["FILL"], {}, 200)
+            if (truncated) {
+              return err(`The account has more than ${activities.length} fills, the most this report reads. Lots are rebuilt from the first fill, so cost basis and gains would be wrong without the rest; no report was made.`)
+            }
+            const fills: LotFill[] = activities
+              .filter(a => a.symbol && a.qty && a.price && a.transaction_time)
+              .map(a => ({
+                id: a.id,
+                orderId: a.order_id ?? a.id,
+                time: a.transaction_time as string,
+                symbol: a.symbol as string,
+                side: a.side as LotFill["side"],
+                qty: parseFloat(a.qty as string),
+                price: parseFloat(a.price as string),
+                multiplier: optionUnderlying(a.symbol as string) ? 100 : 1,
+              }))
+            if (fills.length === 0) return ok(`No fills found [${mode.toUpperCase()}].`)
+
+            const report = matchLots(fills, method, (args.lot_selection as Record<string, string[]>) || {})
+            const start = args.year ? `${args.year}-01-01` : args.start_date as string | undefined
+            const end = args.year ? `${args.year}-12-31` : args.end_date as string | undefined
+            const symbol = args.symbol ? (args.symbol as string).toUpperCase() : undefined
+            const realized = report.realized.filter(l => {
+              const day = l.closeTime.slice(0, 10)
+              return (!start || day >= start) && (!end || day <= end) && (!symbol || normalizeSymbol(l.symbol) === normalizeSymbol(symbol))
+            })
+
+            if (args.format === "csv") return ok(realizedToCsv(realized))
+
+            const signed = (n: number) => `${n >= 0 ? "+" : "-"}$${formatMoney(Math.abs(n))}`
+            const lines = [
+              `Realized P&L [${mode.toUpperCase()}] — ${method.toUpperCase()}${symbol ? ` — ${symbol}` : ""}`,
+              `${fills.length} fills, ${realized.length} closed lots in range`,
+              ``,
+            ]
+            for (const y of summarizeByYear(realized)) {
+              lines.push(
+                `${y.year}:`,
+                `  Short-term: ${signed(y.shortTerm)}`,
+                `  Long-term: ${signed(y.longTerm)}`,
+                `  Total: ${signed(y.total)}`,
+                ...(y.washSaleCount ? [`  Wash sales flagged: ${y.washSaleCount} (losses ${signed(y.washSaleLoss)})`] : []),
+                ``
+              )
+            }
+
+            const washes = realized.filter(l => l.washSale)
+            if (washes.length > 0) {
+              lines.push(`Possible wash sales:`)
+              for (const l of washes.slice(0, 20)) {
+                lines.push(`  ${l.symbol} ${Number(l.qty.toFixed(9))} sold ${l.closeTime.slice(0, 10)}: ${signed(l.gain)}`)
+              }
+              if (washes.length > 20) lines.push(`  ... and ${washes.length - 20} more (use format=csv)`)
+              lines.push(``)
+            }
+
+            const open = report.open.filter(l => !symbol || normalizeSymbol(l.symbol) === normalizeSymbol(symbol))
+            if (open.length > 0) {
+              lines.push(`Open lots (${open.length}):`)
+              for (const l of open.slice(0, 20)) {
+                lines.push(`  ${l.symbol} ${Number(l.qty.toFixed(9))} @ $${formatMoney(l.price)} since ${l.openTime.slice(0, 10)}`)
+              }
+              if (open.length > 20) lines.push(`  ... and ${open.length - 20} more`)
+            }
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_activities",
+          description: "List account activities — dividends, fees, interest, deposits/withdrawals, journals, splits, fills and more — with per-type totals. Filter by activity type, date range and symbol. Follows pagination to cover the whole range.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              activity_types: { type: "array", items: { type: "string" }, description: "Activity types, e.g. DIV, FEE, INT, CSD, CSW, JNLC, JNLS, SPLIT, FILL, OPEXP. Omit for all types." },
+              start_date: { type: "string", description: "Activities on or after YYYY-MM-DD" },
+              end_date: { type: "string", description: "Activities on or before YYYY-MM-DD" },
+              symbol: { type: "string", description: "Only activities for this symbol" },
+              limit: { type: "number", description: "Max activities to list after the totals (default: 25, max: 200)" },
+            },
+            required: ["mode"]
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const types = ((args.activity_types as string[]) || []).map(t => t.toUpperCase())
+            const limit = Math.min((args.limit as number) || 25, 200)
+            const symbol = args.symbol ? normalizeSymbol(args.symbol as string) : undefined
+
+            const params: Record<string, string> = {}
+            // "after" is exclusive, so step back one millisecond to include the start date
+            if (args.start_date) params.after = new Date(new Date(`${args.start_date}T00:00:00Z`).getTime() - 1).toISOString()
+            if (args.end_date) params.until = `${args.end_date}T23:59:59Z`
+
+            const { activities: all, truncated } = await getClient(mode).getAllActivities(types, params)
+            const activities = all.filter(a => !symbol || (a.symbol && normalizeSymbol(a.symbol) === symbol))
+            const range = `${args.start_date || "start"} → ${args.end_date || "now"}`
+            if (activities.length === 0) return ok(`No activities found [${mode.toUpperCase()}] (${range}).`)
+
+            const totals = new Map<string, { count: number; amount: number }>()
+            for (const a of activities) {
+              const t = totals.get(a.activity_type) ?? { count: 0, amount: 0 }
+              t.count++
+              if (a.activity_type === "FILL") {
+                // Buys spend cash, sells raise it
+                const value = parseFloat(a.qty || "0") * parseFloat(a.price || "0")
+                t.amount += a.side === "buy" ? -value : value
+              } else {
+                t.amount += parseFloat(a.net_amount || "0")
+              }
+              totals.set(a.activity_type, t)
+            }
+
+            const signed = (n: number) => `${n >= 0 ? "+" : "-"}$${formatMoney(Math.abs(n))}`
+            const lines = [
+              `Account Activities [${mode.toUpperCase()}] (${range}${symbol ? `, ${symbol}` : ""})`,
+              `${activities.length} activities`,
+              ...(truncated ? [`WARNING: stopped after the first ${all.length} activities in the range; later ones and their totals are missing. Narrow the date range or types.`] : []),
+              ``,
+              `Totals by type:`,
+            ]
+            for (const [type, t] of [...totals].sort((a, b) => a[0].localeCompare(b[0]))) {
+              lines.push(`  ${type} — ${ACTIVITY_TYPE_LABELS[type] ?? type}: ${signed(t.amount)} (${t.count})`)
+            }
+
+            lines.push(``, `${activities.length > limit ? `Latest ${limit}` : "All"} activities:`)
+            for (const a of activities.slice(-limit).reverse()) {
+              const when = (a.transaction_time || a.date || "").slice(0, 10)
+              if (a.activity_type === "FILL") {
+                lines.push(`  ${when} FILL ${a.side?.toUpperCase()} ${a.qty} ${a.symbol} @ $${formatMoney(a.price || "0")}`)
+              } else {
+                const detail = [a.symbol, a.qty ? `qty ${a.qty}` : null, a.per_share_amount ? `$${a.per_share_amount}/sh` : null, a.description]
+                  .filter(Boolean).join(" ")
+                lines.push(`  ${when} ${a.activity_type} ${signed(parseFloat(a.net_amount || "0"))}${detail ? ` — ${detail}` : ""}`)
+              }
+            }
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      // ══════════════════════════════════════════════════════
+      //  MARKET DATA
+      // ══════════════════════════════════════════════════════
+
+      {
+        definition: {
+          name: "alpaca_quote",
+          description: "Get a real-time stock snapshot: last trade, bid/ask, daily bar, and previous close. Uses Alpaca market data.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Ticker symbol (e.g. AAPL, TSLA, SPY)" },
+            },
+            required: ["symbol"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbol = (args.symbol as string).toUpperCase()
+            // Market data is same for paper/live - use whichever is configured
             const client = getPaperClient() || getLiveClient()
             if (!client) return err("No trading credentials configured")
 
@@ -620,140 +2432,500 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             const sign = change >= 0 ? "+" : ""
 
             const lines = [
-              `${symbol}: $${formatMoney(price)}`,
-              `Change: ${sign}$${formatMoney(change)} (${sign}${changePct.toFixed(2)}%)`,
-              `Bid: $${formatMoney(snap.latestQuote.bp)} x ${snap.latestQuote.bs} | Ask: $${formatMoney(snap.latestQuote.ap)} x ${snap.latestQuote.as}`,
-              `Today: O $${formatMoney(snap.dailyBar.o)} H $${formatMoney(snap.dailyBar.h)} L $${formatMoney(snap.dailyBar.l)} V ${snap.dailyBar.v.toLocaleString()}`,
-              `Prev Close: $${formatMoney(prevClose)}`,
+              `${symbol}: $${formatMoney(price)}`,
+              `Change: ${sign}$${formatMoney(change)} (${sign}${changePct.toFixed(2)}%)`,
+              `Bid: $${formatMoney(snap.latestQuote.bp)} x ${snap.latestQuote.bs} | Ask: $${formatMoney(snap.latestQuote.ap)} x ${snap.latestQuote.as}`,
+              `Today: O $${formatMoney(snap.dailyBar.o)} H $${formatMoney(snap.dailyBar.h)} L $${formatMoney(snap.dailyBar.l)} V ${snap.dailyBar.v.toLocaleString()}`,
+              `Prev Close: $${formatMoney(prevClose)}`,
+            ]
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_quotes",
+          description: "Get real-time snapshots for multiple stock symbols at once.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbols: { type: "array", items: { type: "string" }, description: "Array of ticker symbols" },
+            },
+            required: ["symbols"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbols = (args.symbols as string[]).map(s => s.toUpperCase())
+            // Market data is same for paper/live - use whichever is configured
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            const snaps = await client.getSnapshots(symbols)
+
+            const lines: string[] = []
+            for (const sym of symbols) {
+              const snap = snaps[sym]
+              if (!snap) { lines.push(`${sym}: No data`); continue }
+              const price = snap.latestTrade.p
+              const prevClose = snap.prevDailyBar.c
+              const change = price - prevClose
+              const pct = (change / prevClose) * 100
+              const sign = change >= 0 ? "+" : ""
+              lines.push(`${sym}: $${formatMoney(price)} (${sign}${pct.toFixed(2)}%)`)
+            }
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_asset",
+          description: "Look up assets on Alpaca: exchange, class, and whether each is tradable, fractionable, shortable, easy to borrow and marginable, plus crypto minimum order sizes. Pass symbols to look up, or search to find assets by symbol or name.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbols: { type: "array", items: { type: "string" }, description: "Symbols to look up (e.g. [\"AAPL\", \"BTC/USD\"])" },
+              search: { type: "string", description: "Find active assets whose symbol or name contains this text" },
+              asset_class: { type: "string", description: "Restrict search to an asset class (default: us_equity)", enum: ["us_equity", "crypto"] },
+            },
+            required: [],
+          },
+        },
+        handler: async (args) => {
+          try {
+            // Asset data is same for paper/live - use whichever is configured
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            if (args.search) {
+              const needle = (args.search as string).toUpperCase()
+              const assets = await client.getAssets({ status: "active", asset_class: (args.asset_class as string) || "us_equity" })
+              const matches = assets
+                .filter(a => a.symbol.toUpperCase().includes(needle) || a.name.toUpperCase().includes(needle))
+                // Exact and prefix symbol matches first
+                .sort((a, b) => Number(b.symbol === needle) - Number(a.symbol === needle)
+                  || Number(b.symbol.startsWith(needle)) - Number(a.symbol.startsWith(needle))
+                  || a.symbol.localeCompare(b.symbol))
+              if (matches.length === 0) return ok(`No active assets match "${args.search}".`)
+              const lines = [`Assets matching "${args.search}" (${matches.length} found)`, ``]
+              for (const a of matches.slice(0, 25)) {
+                lines.push(`${a.symbol} — ${a.name} (${a.exchange})${a.tradable ? "" : " [not tradable]"}`)
+              }
+              if (matches.length > 25) lines.push(`... and ${matches.length - 25} more`)
+              return ok(lines.join("\n"))
+            }
+
+            const symbols = ((args.symbols as string[]) || []).map(s => s.toUpperCase())
+            if (symbols.length === 0) return err("Pass symbols to look up or search text.")
+
+            const lines: string[] = []
+            for (const symbol of symbols) {
+              try {
+                const asset = await getAssetCached(client, symbol)
+                lines.push(...describeAsset(asset), ``)
+              } catch (e) {
+                lines.push(e instanceof NotFoundError ? `${symbol}: unknown symbol` : `${symbol}: ${summarizeError(e)}`, ``)
+              }
+            }
+            return ok(lines.join("\n").trimEnd())
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_bars",
+          description: "Get historical OHLCV bars for a stock over any date range (all pages are fetched, and completed days are cached locally). Useful for trend analysis and charting.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Ticker symbol" },
+              timeframe: { type: "string", description: "Bar size: 1Min, 5Min, 15Min, 1Hour, 1Day, 1Week, 1Month", enum: ["1Min", "5Min", "15Min", "1Hour", "1Day", "1Week", "1Month"] },
+              days: { type: "number", description: "Number of trading days of history when no start date is given (default: 30)" },
+              start: { type: "string", description: "Start date (YYYY-MM-DD); overrides days" },
+              end: { type: "string", description: "End date (YYYY-MM-DD, inclusive; default: now)" },
+              adjustment: { type: "string", description: "Corporate action adjustment (default: raw)", enum: ["raw", "split", "dividend", "all"] },
+              limit: { type: "number", description: "Only summarize the most recent N bars of the range (default: all)" },
+            },
+            required: ["symbol"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbol = (args.symbol as string).toUpperCase()
+            const timeframe = (args.timeframe as string) || "1Day"
+            const days = (args.days as number) || 30
+            const adjustment = (args.adjustment as BarAdjustment) || "raw"
+
+            // Market data is same for paper/live - use whichever is configured
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            const start = (args.start as string) || await tradingDaysAgo(client, days)
+            const end = args.end as string | undefined
+            const all = await fetchBars(client, symbol, timeframe, start, end, adjustment)
+            const bars = args.limit ? all.slice(-(args.limit as number)) : all
+
+            if (bars.length === 0) {
+              return err(`No bar data for ${symbol}`)
+            }
+
+            const latest = bars[bars.length - 1]
+            const earliest = bars[0]
+            const periodReturn = ((latest.c - earliest.c) / earliest.c) * 100
+            const range = args.start ? `${start} to ${end || "now"}` : `${days} trading days`
+            const high = bars.reduce((m, b) => Math.max(m, b.h), -Infinity)
+            const low = bars.reduce((m, b) => Math.min(m, b.l), Infinity)
+
+            const lines = [
+              `${symbol} — ${bars.length} bars (${timeframe}, ${range}${adjustment !== "raw" ? `, ${adjustment}-adjusted` : ""})`,
+              `Latest: $${formatMoney(latest.c)} | Period Return: ${periodReturn >= 0 ? "+" : ""}${periodReturn.toFixed(2)}%`,
+              `Period High: $${formatMoney(high)}`,
+              `Period Low: $${formatMoney(low)}`,
+              ``,
+              `Recent bars:`,
+            ]
+
+            for (const bar of bars.slice(-8).reverse()) {
+              const date = new Date(bar.t).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+              lines.push(`  ${date}: O $${formatMoney(bar.o)} H $${formatMoney(bar.h)} L $${formatMoney(bar.l)} C $${formatMoney(bar.c)} V ${bar.v.toLocaleString()}`)
+            }
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_indicators",
+          description: "Compute technical indicators for a stock from historical bars: SMA, EMA, RSI, MACD, Bollinger Bands, ATR, VWAP and stochastics, with current values and signals such as golden/death crosses and overbought/oversold readings. Fetches extra warm-up history automatically.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Ticker symbol" },
+              timeframe: { type: "string", description: "Bar size (default: 1Day)", enum: ["1Min", "5Min", "15Min", "1Hour", "1Day"] },
+              sma_periods: { type: "array", items: { type: "number" }, description: "SMA periods to report (default: [20, 50, 200])" },
+              ema_periods: { type: "array", items: { type: "number" }, description: "EMA periods to report (default: [9, 21])" },
+              lookback: { type: "number", description: "Recent bars to show indicator history for and to scan for crosses (default: 5, max: 20)" },
+              adjustment: { type: "string", description: "Corporate action adjustment (default: split)", enum: ["raw", "split", "dividend", "all"] },
+            },
+            required: ["symbol"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbol = (args.symbol as string).toUpperCase()
+            const timeframe = (args.timeframe as string) || "1Day"
+            const smaPeriods = (args.sma_periods as number[] | undefined)?.length ? (args.sma_periods as number[]) : [20, 50, 200]
+            const emaPeriods = (args.ema_periods as number[] | undefined)?.length ? (args.ema_periods as number[]) : [9, 21]
+            const lookback = Math.min(Math.max((args.lookback as number) || 5, 1), 20)
+
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            // Always fetch enough for the SMA 50/200 signals, then turn bars into sessions
+            const needed = warmupBars({ smaPeriods: [...smaPeriods, 200], emaPeriods, lookback })
+            const barMinutes: Record<string, number> = { "1Min": 1, "5Min": 5, "15Min": 15, "1Hour": 60 }
+            const barsPerDay = barMinutes[timeframe] ? Math.floor(390 / barMinutes[timeframe]) : 1
+            const start = await tradingDaysAgo(client, Math.ceil(needed / barsPerDay) + 2)
+
+            const bars = (await fetchBars(client, symbol, timeframe, start, undefined, (args.adjustment as BarAdjustment) || "split")).slice(-needed)
+            if (bars.length === 0) return err(`No bar data for ${symbol}`)
+            const closes = bars.map(b => b.c)
+            const price = last(closes)
+            const fmt = (n: number) => Number.isNaN(n) ? "n/a" : `$${formatMoney(n)}`
+            const vsPrice = (n: number) => Number.isNaN(n) ? "" : ` (price ${price >= n ? "above" : "below"}, ${(((price - n) / n) * 100).toFixed(2)}%)`
+
+            const lines = [
+              `${symbol} indicators — ${timeframe}, ${bars.length} bars through ${new Date(bars[bars.length - 1].t).toLocaleString("en-US")}`,
+              `Last: $${formatMoney(price)}`,
+            ]
+            if (bars.length < needed) lines.push(`Note: only ${bars.length} of ${needed} bars available; longer averages may be missing or still warming up.`)
+
+            lines.push(``, `Moving averages:`)
+            for (const p of smaPeriods) {
+              const v = last(sma(closes, p))
+              lines.push(`  SMA ${p}: ${fmt(v)}${vsPrice(v)}`)
+            }
+            for (const p of emaPeriods) {
+              const v = last(ema(closes, p))
+              lines.push(`  EMA ${p}: ${fmt(v)}${vsPrice(v)}`)
+            }
+
+            const r = rsi(closes)
+            const m = macd(closes)
+            const bands = bollinger(closes)
+            const a = atr(bars)
+            const st = stochastic(bars)
+            const vw = vwap(bars, timeframe !== "1Day")
+            const upper = last(bands.upper)
+            const lower = last(bands.lower)
+            const percentB = upper === lower ? NaN : ((price - lower) / (upper - lower)) * 100
+
+            lines.push(
+              ``,
+              `Oscillators & bands:`,
+              `  RSI 14: ${last(r).toFixed(1)}`,
+              `  MACD 12/26/9: ${last(m.macd).toFixed(3)} | Signal: ${last(m.signal).toFixed(3)} | Histogram: ${last(m.histogram).toFixed(3)}`,
+              `  Bollinger 20/2: Upper ${fmt(upper)} | Middle ${fmt(last(bands.middle))} | Lower ${fmt(lower)} | %B ${percentB.toFixed(1)}`,
+              `  ATR 14: ${fmt(last(a))} (${((last(a) / price) * 100).toFixed(2)}% of price)`,
+              `  Stochastic 14/3: %K ${last(st.k).toFixed(1)} | %D ${last(st.d).toFixed(1)}`,
+              `  VWAP (${timeframe === "1Day" ? "over fetched range" : "session"}): ${fmt(last(vw))}${vsPrice(last(vw))}`,
+            )
+
+            lines.push(``, `Last ${lookback} bars:`)
+            for (let i = Math.max(0, bars.length - lookback); i < bars.length; i++) {
+              const date = new Date(bars[i].t).toLocaleString("en-US", timeframe === "1Day"
+                ? { month: "short", day: "numeric" }
+                : { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+              lines.push(`  ${date}: C $${formatMoney(closes[i])} | RSI ${r[i].toFixed(1)} | MACD hist ${m.histogram[i].toFixed(3)} | %K ${st.k[i].toFixed(1)}`)
+            }
+
+            const signals = detectSignals(bars, lookback)
+            lines.push(``, `Signals:`)
+            if (signals.length === 0) lines.push(`  None`)
+            for (const s of signals) {
+              lines.push(`  [${s.bias}] ${s.indicator}: ${s.message}`)
+            }
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_crypto_quote",
+          description: "Get a real-time crypto snapshot from Alpaca. Supports symbols like BTC/USD, ETH/USD (BTCUSD is accepted too).",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD, ETH/USD, SOL/USD)" },
+            },
+            required: ["symbol"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbol = normalizeCryptoPair(args.symbol as string)
+            // Market data is same for paper/live - use whichever is configured
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            const snap = await client.getCryptoSnapshot(symbol)
+
+            const price = snap.latestTrade.p
+            const lines = [
+              `${symbol}: $${formatCryptoPrice(price)}`,
+              `Bid: $${formatCryptoPrice(snap.latestQuote.bp)} | Ask: $${formatCryptoPrice(snap.latestQuote.ap)}`,
+              `Daily: O $${formatCryptoPrice(snap.dailyBar.o)} H $${formatCryptoPrice(snap.dailyBar.h)} L $${formatCryptoPrice(snap.dailyBar.l)} V ${snap.dailyBar.v.toLocaleString()}`,
             ]
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
       {
         definition: {
-          name: "alpaca_quotes",
-          description: "Get real-time snapshots for multiple stock symbols at once.",
+          name: "alpaca_crypto_quotes",
+          description: "Get real-time snapshots for multiple crypto pairs at once: price, bid/ask, 24h change and volume.",
           inputSchema: {
             type: "object" as const,
             properties: {
-              symbols: { type: "array", items: { type: "string" }, description: "Array of ticker symbols" },
+              symbols: { type: "array", items: { type: "string" }, description: "Crypto pairs (e.g. [\"BTC/USD\", \"ETH/USD\"]; BTCUSD is accepted too)" },
             },
             required: ["symbols"],
           },
         },
         handler: async (args) => {
           try {
-            const symbols = (args.symbols as string[]).map(s => s.toUpperCase())
+            const symbols = (args.symbols as string[]).map(normalizeCryptoPair)
             // Market data is same for paper/live - use whichever is configured
             const client = getPaperClient() || getLiveClient()
             if (!client) return err("No trading credentials configured")
 
-            const snaps = await client.getSnapshots(symbols)
+            const snaps = await client.getCryptoSnapshots(symbols)
 
             const lines: string[] = []
             for (const sym of symbols) {
               const snap = snaps[sym]
               if (!snap) { lines.push(`${sym}: No data`); continue }
               const price = snap.latestTrade.p
-              const prevClose = snap.prevDailyBar.c
-              const change = price - prevClose
-              const pct = (change / prevClose) * 100
-              const sign = change >= 0 ? "+" : ""
-              lines.push(`${sym}: $${formatMoney(price)} (${sign}${pct.toFixed(2)}%)`)
+              const prevClose = snap.prevDailyBar?.c
+              const change = prevClose ? ((price - prevClose) / prevClose) * 100 : null
+              const changeText = change === null ? "" : ` (${change >= 0 ? "+" : ""}${change.toFixed(2)}%)`
+              lines.push(`${sym}: $${formatCryptoPrice(price)}${changeText} | Bid $${formatCryptoPrice(snap.latestQuote.bp)} / Ask $${formatCryptoPrice(snap.latestQuote.ap)} | Vol ${snap.dailyBar.v.toLocaleString()}`)
             }
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
       {
         definition: {
-          name: "alpaca_bars",
-          description: "Get historical OHLCV bars for a stock. Useful for trend analysis and charting.",
+          name: "alpaca_crypto_bars",
+          description: "Get historical OHLCV bars for a crypto pair over any date range. Crypto trades 24/7, so daily bars include weekends.",
           inputSchema: {
             type: "object" as const,
             properties: {
-              symbol: { type: "string", description: "Ticker symbol" },
-              timeframe: { type: "string", description: "Bar size: 1Min, 5Min, 15Min, 1Hour, 1Day, 1Week, 1Month", enum: ["1Min", "5Min", "15Min", "1Hour", "1Day", "1Week", "1Month"] },
-              days: { type: "number", description: "Number of days of history (default: 30)" },
-              limit: { type: "number", description: "Max bars to return (default: 50, max: 200)" },
+              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD)" },
+              timeframe: { type: "string", description: "Bar size (default: 1Hour)", enum: ["1Min", "5Min", "15Min", "1Hour", "1Day", "1Week", "1Month"] },
+              days: { type: "number", description: "Number of days of history when no start date is given (default: 7)" },
+              start: { type: "string", description: "Start date (YYYY-MM-DD); overrides days" },
+              end: { type: "string", description: "End date (YYYY-MM-DD, inclusive; default: now)" },
+              limit: { type: "number", description: "Only summarize the most recent N bars of the range (default: all)" },
             },
             required: ["symbol"],
           },
         },
         handler: async (args) => {
           try {
-            const symbol = (args.symbol as string).toUpperCase()
-            const timeframe = (args.timeframe as string) || "1Day"
-            const days = Math.min((args.days as number) || 30, 365)
-            const limit = String(Math.min((args.limit as number) || 50, 200))
+            const symbol = normalizeCryptoPair(args.symbol as string)
+            const timeframe = (args.timeframe as string) || "1Hour"
+            const days = (args.days as number) || 7
 
             // Market data is same for paper/live - use whichever is configured
             const client = getPaperClient() || getLiveClient()
             if (!client) return err("No trading credentials configured")
 
-            const start = new Date(Date.now() - days * 86400000).toISOString().split("T")[0]
-            const result = await client.getBars(symbol, timeframe, start, undefined, limit)
-
-            if (!result.bars || result.bars.length === 0) {
-              return err(`No bar data for ${symbol}`)
-            }
+            const start = (args.start as string) || new Date(Date.now() - days * 86400000).toISOString().split("T")[0]
+            const end = args.end as string | undefined
+            const all = await fetchCryptoBars(client, symbol, timeframe, start, end)
+            const bars = args.limit ? all.slice(-(args.limit as number)) : all
+            if (bars.length === 0) return err(`No bar data for ${symbol}`)
 
-            const bars = result.bars
-            const latest = bars[0]
-            const earliest = bars[bars.length - 1]
-            const periodReturn = ((latest.c - earliest.c) / earliest.c) * 100
+            const latest = bars[bars.length - 1]
+            const periodReturn = ((latest.c - bars[0].c) / bars[0].c) * 100
+            const range = args.start ? `${start} to ${end || "now"}` : `${days}d`
+            const volume = bars.reduce((sum, b) => sum + b.v, 0)
 
             const lines = [
-              `${symbol} — ${bars.length} bars (${timeframe}, ${days}d)`,
-              `Latest: $${formatMoney(latest.c)} | Period Return: ${periodReturn >= 0 ? "+" : ""}${periodReturn.toFixed(2)}%`,
-              `Period High: $${formatMoney(Math.max(...bars.map(b => b.h)))}`,
-              `Period Low: $${formatMoney(Math.min(...bars.map(b => b.l)))}`,
+              `${symbol} — ${bars.length} bars (${timeframe}, ${range})`,
+              `Latest: $${formatCryptoPrice(latest.c)} | Period Return: ${periodReturn >= 0 ? "+" : ""}${periodReturn.toFixed(2)}%`,
+              `Period High: $${formatCryptoPrice(bars.reduce((m, b) => Math.max(m, b.h), -Infinity))}`,
+              `Period Low: $${formatCryptoPrice(bars.reduce((m, b) => Math.min(m, b.l), Infinity))}`,
+              `Period Volume: ${volume.toLocaleString("en-US", { maximumFractionDigits: 4 })}`,
               ``,
               `Recent bars:`,
             ]
-
-            for (const bar of bars.slice(0, 8)) {
-              const date = new Date(bar.t).toLocaleDateString("en-US", { month: "short", day: "numeric" })
-              lines.push(`  ${date}: O $${formatMoney(bar.o)} H $${formatMoney(bar.h)} L $${formatMoney(bar.l)} C $${formatMoney(bar.c)} V ${bar.v.toLocaleString()}`)
+            for (const bar of bars.slice(-8).reverse()) {
+              const date = new Date(bar.t).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit", timeZone: "UTC" })
+              lines.push(`  ${date} UTC: O $${formatCryptoPrice(bar.o)} H $${formatCryptoPrice(bar.h)} L $${formatCryptoPrice(bar.l)} C $${formatCryptoPrice(bar.c)} V ${bar.v.toLocaleString("en-US", { maximumFractionDigits: 4 })}`)
             }
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
 
+      {
+        definition: {
+          name: "alpaca_crypto_orderbook",
+          description: "Get the latest order book for a crypto pair: best bid/ask, spread, top price levels on each side and the size imbalance between them.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD)" },
+              depth: { type: "number", description: "Price levels to show per side (default: 10, max: 50)" },
+            },
+            required: ["symbol"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbol = normalizeCryptoPair(args.symbol as string)
+            const depth = Math.min(Math.max((args.depth as number) || 10, 1), 50)
+            // Market data is same for paper/live - use whichever is configured
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            const book = await client.getCryptoOrderbook(symbol)
+            const bids = [...book.b].sort((x, y) => y.p - x.p).slice(0, depth)
+            const asks = [...book.a].sort((x, y) => x.p - y.p).slice(0, depth)
+            if (bids.length === 0 || asks.length === 0) return err(`Order book for ${symbol} is empty on one side`)
+
+            const bestBid = bids[0].p
+            const bestAsk = asks[0].p
+            const mid = (bestBid + bestAsk) / 2
+            const spread = bestAsk - bestBid
+            const bidSize = bids.reduce((sum, l) => sum + l.s, 0)
+            const askSize = asks.reduce((sum, l) => sum + l.s, 0)
+            const imbalance = bidSize + askSize ? ((bidSize - askSize) / (bidSize + askSize)) * 100 : 0
+            const size = (n: number) => n.toLocaleString("en-US", { maximumFractionDigits: 6 })
+
+            const lines = [
+              `${symbol} order book — ${new Date(book.t).toLocaleString("en-US")}`,
+              `Bid: $${formatCryptoPrice(bestBid)} | Ask: $${formatCryptoPrice(bestAsk)} | Mid: $${formatCryptoPrice(mid)}`,
+              `Spread: $${formatCryptoPrice(spread)} (${((spread / mid) * 10000).toFixed(1)} bps)`,
+              `Top ${depth} depth: ${size(bidSize)} bid vs ${size(askSize)} ask (imbalance ${imbalance >= 0 ? "+" : ""}${imbalance.toFixed(1)}% ${imbalance >= 0 ? "bid" : "ask"}-heavy)`,
+              ``,
+              `Asks:`,
+            ]
+            let cumulative = 0
+            const askLines: string[] = []
+            for (const level of asks) {
+              cumulative += level.s
+              askLines.push(`  $${formatCryptoPrice(level.p)}  ${size(level.s)}  (cum ${size(cumulative)})`)
+            }
+            // Highest ask first so the book reads top-down into the spread
+            lines.push(...askLines.reverse(), `  ── spread $${formatCryptoPrice(spread)} ──`, `Bids:`)
+            cumulative = 0
+            for (const level of bids) {
+              cumulative += level.s
+              lines.push(`  $${formatCryptoPrice(level.p)}  ${size(level.s)}  (cum ${size(cumulative)})`)
+            }
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
       {
         definition: {
-          name: "alpaca_crypto_quote",
-          description: "Get a real-time crypto snapshot from Alpaca. Supports symbols like BTC/USD, ETH/USD.",
+          name: "alpaca_crypto_trades",
+          description: "Get the most recent trades for a crypto pair with taker side, plus buy/sell volume over those trades.",
           inputSchema: {
             type: "object" as const,
             properties: {
-              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD, ETH/USD, SOL/USD)" },
+              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD)" },
+              limit: { type: "number", description: "Number of trades (default: 20, max: 1000)" },
             },
             required: ["symbol"],
           },
         },
         handler: async (args) => {
           try {
-            const symbol = (args.symbol as string).toUpperCase()
+            const symbol = normalizeCryptoPair(args.symbol as string)
+            const limit = Math.min(Math.max((args.limit as number) || 20, 1), 1000)
             // Market data is same for paper/live - use whichever is configured
             const client = getPaperClient() || getLiveClient()
             if (!client) return err("No trading credentials configured")
 
-            const snap = await client.getCryptoSnapshot(symbol)
+            // Without a start the endpoint only looks at today; a day back covers quiet pairs too
+            const trades = await client.getCryptoTrades(symbol, limit, new Date(Date.now() - 86400000).toISOString())
+            if (trades.length === 0) return ok(`No recent trades for ${symbol}.`)
+
+            const size = (n: number) => n.toLocaleString("en-US", { maximumFractionDigits: 6 })
+            const buyVolume = trades.filter(t => t.tks === "B").reduce((sum, t) => sum + t.s, 0)
+            const sellVolume = trades.filter(t => t.tks === "S").reduce((sum, t) => sum + t.s, 0)
+            const notional = trades.reduce((sum, t) => sum + t.p * t.s, 0)
+            const volume = buyVolume + sellVolume
 
-            const price = snap.latestTrade.p
             const lines = [
-              `${symbol}: $${formatMoney(price)}`,
-              `Bid: $${formatMoney(snap.latestQuote.bp)} | Ask: $${formatMoney(snap.latestQuote.ap)}`,
-              `Daily: O $${formatMoney(snap.dailyBar.o)} H $${formatMoney(snap.dailyBar.h)} L $${formatMoney(snap.dailyBar.l)} V ${snap.dailyBar.v.toLocaleString()}`,
+              `${symbol} — last ${trades.length} trades`,
+              `Taker buys: ${size(buyVolume)} | Taker sells: ${size(sellVolume)}${volume ? ` (${((buyVolume / volume) * 100).toFixed(0)}% buy)` : ""}`,
+              `VWAP: $${formatCryptoPrice(volume ? notional / volume : trades[0].p)}`,
+              ``,
             ]
+            for (const t of trades.slice(0, 50)) {
+              const time = new Date(t.t).toLocaleTimeString("en-US", { hour12: false, timeZone: "UTC" })
+              lines.push(`  ${time} UTC  ${t.tks === "B" ? "BUY " : "SELL"}  ${size(t.s)} @ $${formatCryptoPrice(t.p)}`)
+            }
+            if (trades.length > 50) lines.push(`  ... ${trades.length - 50} more`)
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
@@ -764,7 +2936,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
       {
         definition: {
           name: "alpaca_place_order",
-          description: "Place a stock or ETF order. Supports market, limit, stop, stop-limit, and trailing-stop orders. IMPORTANT: Specify the mode (paper/live) to determine which account to use.",
+          description: "Place a stock or ETF order. Supports market, limit, stop, stop-limit, and trailing-stop orders, plus bracket, OCO and OTO order classes with take-profit and stop-loss legs. IMPORTANT: Specify the mode (paper/live) to determine which account to use. Live orders return a preview with a confirmation token first; call again with the same arguments plus confirmation_token to submit.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -783,47 +2955,24 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               trail_price: { type: "number", description: "Trailing stop dollar amount (for trailing_stop)" },
               time_in_force: { type: "string", description: "Time in force", enum: ["day", "gtc", "opg", "cls", "ioc", "fok"] },
               extended_hours: { type: "boolean", description: "Allow extended hours trading (limit orders only)" },
+              order_class: { type: "string", description: "simple (default); bracket = entry plus take-profit and stop-loss; oco = take-profit and stop-loss exits for an existing position; oto = entry plus one exit leg", enum: ["simple", "bracket", "oco", "oto"] },
+              take_profit_price: { type: "number", description: "Limit price of the take-profit leg (bracket, oco, oto)" },
+              stop_loss_price: { type: "number", description: "Stop price of the stop-loss leg (bracket, oco, oto)" },
+              stop_loss_limit_price: { type: "number", description: "Optional limit price for the stop-loss leg, making it a stop-limit" },
+              rationale: { type: "string", description: "Why this trade is being made. Saved to the trade journal." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags for this trade (e.g. strategy or idea names)" },
+              confirmation_token: { type: "string", description: "Token from a live-mode preview. Pass it with the same arguments to submit the previewed order." },
             },
             required: ["mode", "symbol", "side", "qty"],
           },
         },
-        handler: async (args) => {
-          try {
-            const mode = args.mode as "paper" | "live"
-            const order: Record<string, unknown> = {
-              symbol: (args.symbol as string).toUpperCase(),
-              side: args.side || "buy",
-              qty: String(args.qty),
-              type: args.order_type || "market",
-              time_in_force: args.time_in_force || "day",
-            }
-            if (args.limit_price) order.limit_price = String(args.limit_price)
-            if (args.stop_price) order.stop_price = String(args.stop_price)
-            if (args.trail_percent) order.trail_percent = String(args.trail_percent)
-            if (args.trail_price) order.trail_price = String(args.trail_price)
-            if (args.extended_hours) order.extended_hours = true
-
-            const result = await getClient(mode).placeOrder(order)
-
-            const lines = [
-              `Order Placed [${mode.toUpperCase()}]`,
-              `${result.side.toUpperCase()} ${result.qty} ${result.symbol}`,
-              `Type: ${result.order_type} | TIF: ${result.time_in_force}`,
-              result.limit_price ? `Limit: $${formatMoney(result.limit_price)}` : null,
-              result.stop_price ? `Stop: $${formatMoney(result.stop_price)}` : null,
-              `Status: ${result.status}`,
-              `Order ID: ${result.id}`,
-            ].filter(Boolean)
-
-            return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
-        },
+        handler: async (args) => placeStockOrder(args),
       },
 
       {
         definition: {
           name: "alpaca_place_crypto_order",
-          description: "Place a crypto order. Supports market and limit orders with qty or notional (dollar) amounts.",
+          description: "Place a crypto order. Supports market and limit orders with qty or notional (dollar) amounts. Live orders return a preview with a confirmation token first; call again with the same arguments plus confirmation_token to submit.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -832,13 +2981,16 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 enum: ["paper", "live"],
                 description: "Which account to use. REQUIRED."
               },
-              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD, ETH/USD)" },
+              symbol: { type: "string", description: "Crypto pair (e.g. BTC/USD, ETH/USD; BTCUSD is accepted too)" },
               side: { type: "string", description: "buy or sell", enum: ["buy", "sell"] },
               qty: { type: "number", description: "Quantity of crypto (e.g. 0.5 for half a BTC)" },
               notional: { type: "number", description: "Dollar amount instead of qty (e.g. 100 for $100 worth)" },
               order_type: { type: "string", description: "Order type", enum: ["market", "limit", "stop_limit"] },
               limit_price: { type: "number", description: "Limit price" },
               time_in_force: { type: "string", description: "Time in force for crypto", enum: ["gtc", "ioc"] },
+              rationale: { type: "string", description: "Why this trade is being made. Saved to the trade journal." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags for this trade (e.g. strategy or idea names)" },
+              confirmation_token: { type: "string", description: "Token from a live-mode preview. Pass it with the same arguments to submit the previewed order." },
             },
             required: ["mode", "symbol", "side"],
           },
@@ -846,7 +2998,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const order: Record<string, unknown> = {
-              symbol: (args.symbol as string).toUpperCase(),
+              symbol: normalizeCryptoPair(args.symbol as string),
               side: args.side,
               type: args.order_type || "market",
               time_in_force: args.time_in_force || "gtc",
@@ -858,7 +3010,26 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             if (args.limit_price) order.limit_price = String(args.limit_price)
 
             const mode = args.mode as "paper" | "live"
-            const result = await getClient(mode).placeOrder(order)
+            const client = getClient(mode)
+            const intent: OrderIntent = {
+              symbol: order.symbol as string,
+              side: order.side as "buy" | "sell",
+              assetClass: "crypto",
+              qty: args.qty as number | undefined,
+              notional: args.qty ? undefined : args.notional as number,
+              price: args.limit_price as number | undefined,
+            }
+            const untradable = await checkAsset(mode, client, intent, order.time_in_force as string)
+            if (untradable) return err(untradable)
+            const rejection = await checkRisk(mode, client, intent)
+            if (rejection) return err(rejection)
+
+            const gate = await confirmGate(mode, client, "alpaca_place_crypto_order", order, intent, args.confirmation_token)
+            if (gate) return gate
+
+            const result = await client.placeOrder(order)
+            journalOrder(mode, "alpaca_place_crypto_order", args, result)
+            const mirrored = await mirrorOrder(mode, "alpaca_place_crypto_order", args, order, result, intent)
 
             const lines = [
               `Crypto Order Placed [${mode.toUpperCase()}]`,
@@ -867,8 +3038,9 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               `Status: ${result.status}`,
               `Order ID: ${result.id}`,
             ]
+            if (mirrored) lines.push(mirrored)
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
@@ -895,7 +3067,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             const mode = args.mode as "paper" | "live"
             const status = (args.status as string) || "open"
             const limit = Math.min((args.limit as number) || 20, 100)
-            const orders = await getClient(mode).getOrders(status, limit)
+            const orders = await getClient(mode).getOrders(status, limit, true)
 
             if (orders.length === 0) return ok(`No ${status} orders [${mode.toUpperCase()}]`)
 
@@ -903,22 +3075,419 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             for (const o of orders) {
               const time = new Date(o.created_at).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
               const filled = o.filled_avg_price ? ` @ $${formatMoney(o.filled_avg_price)}` : ""
+              const orderClass = o.order_class && o.order_class !== "simple" ? ` [${o.order_class}]` : ""
               lines.push(
-                `${o.side.toUpperCase()} ${o.qty} ${o.symbol} (${o.order_type})${filled}`,
+                `${o.side.toUpperCase()} ${o.qty} ${o.symbol} (${o.order_type})${orderClass}${filled}`,
                 `  Status: ${o.status} | ${time}`,
                 `  ID: ${o.id}`,
-                ``
               )
+              for (const leg of o.legs || []) {
+                const price = leg.stop_price
+                  ? `stop $${formatMoney(leg.stop_price)}${leg.limit_price ? ` limit $${formatMoney(leg.limit_price)}` : ""}`
+                  : leg.limit_price ? `limit $${formatMoney(leg.limit_price)}` : leg.order_type
+                const legFilled = leg.filled_avg_price ? ` @ $${formatMoney(leg.filled_avg_price)}` : ""
+                lines.push(
+                  `  └ ${leg.side.toUpperCase()} ${leg.qty} ${leg.symbol} (${price})${legFilled}`,
+                  `    Status: ${leg.status} | ID: ${leg.id}`,
+                )
+              }
+              lines.push(``)
+            }
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_order_status",
+          description: "Look up one order by order ID or client_order_id. Shows every lifecycle timestamp, filled vs ordered qty, average fill price, and slippage against the market price when the order was submitted. Set wait=true to poll until the order is filled, cancelled, expired or rejected.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              order_id: { type: "string", description: "Alpaca order ID" },
+              client_order_id: { type: "string", description: "Client order ID (alternative to order_id)" },
+              wait: { type: "boolean", description: "Poll until the order reaches a terminal status or the timeout passes (default: false)" },
+              timeout_seconds: { type: "number", description: "How long to wait when wait=true (default: 30, max: 120)" },
+            },
+            required: ["mode"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const client = getClient(mode)
+            if (!args.order_id && !args.client_order_id) return err("Provide order_id or client_order_id.")
+
+            const fetchOrder = () => args.order_id
+              ? client.getOrder(args.order_id as string)
+              : client.getOrderByClientId(args.client_order_id as string)
+
+            let order = await fetchOrder()
+            let timedOut = false
+            if (args.wait) {
+              const deadline = Date.now() + Math.min((args.timeout_seconds as number) || 30, 120) * 1000
+              while (!TERMINAL_ORDER_STATUSES.has(order.status)) {
+                if (Date.now() >= deadline) { timedOut = true; break }
+                await sleep(2000)
+                order = await fetchOrder()
+              }
+            }
+
+            const stamp = (v: string | null) => v
+              ? new Date(v).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit", second: "2-digit" })
+              : null
+            const qty = parseFloat(order.qty || "0")
+            const filledQty = parseFloat(order.filled_qty || "0")
+
+            const lines = [
+              `Order ${order.id} [${mode.toUpperCase()}]`,
+              `${order.side.toUpperCase()} ${order.qty ?? ""} ${order.symbol} (${order.order_type}${order.order_class && order.order_class !== "simple" ? `, ${order.order_class}` : ""})`,
+              `Status: ${order.status}${timedOut ? " (still open after waiting)" : ""}`,
+              `Client Order ID: ${order.client_order_id}`,
+              order.limit_price ? `Limit: $${formatMoney(order.limit_price)}` : null,
+              order.stop_price ? `Stop: $${formatMoney(order.stop_price)}` : null,
+              ``,
+              `Filled: ${filledQty} of ${qty || "?"}${qty ? ` (${((filledQty / qty) * 100).toFixed(0)}%)` : ""}`,
+              order.filled_avg_price ? `Avg Fill Price: $${formatMoney(order.filled_avg_price)}` : null,
+              ``,
+              `Timeline:`,
+              `  Created: ${stamp(order.created_at)}`,
+              order.submitted_at ? `  Submitted: ${stamp(order.submitted_at)}` : null,
+              order.filled_at ? `  Filled: ${stamp(order.filled_at)}` : null,
+              order.canceled_at ? `  Canceled: ${stamp(order.canceled_at)}` : null,
+              order.expired_at ? `  Expired: ${stamp(order.expired_at)}` : null,
+              order.failed_at ? `  Failed: ${stamp(order.failed_at)}` : null,
+              `  Updated: ${stamp(order.updated_at)}`,
+            ]
+
+            // Slippage against the open of the minute bar the order was submitted in
+            if (order.filled_avg_price && order.submitted_at && order.asset_class === "us_equity") {
+              const fill = parseFloat(order.filled_avg_price)
+              const submitted = new Date(order.submitted_at)
+              submitted.setUTCSeconds(0, 0)
+              try {
+                // getBars sorts newest first and `end` is inclusive, so stop short of the next minute's bar
+                const bars = await client.getBars(order.symbol, "1Min", submitted.toISOString(), new Date(submitted.getTime() + 59_999).toISOString(), "1")
+                const ref = bars.bars?.[0]?.o
+                if (ref) {
+                  // Positive slippage means a worse price than the market at submission
+                  const slip = order.side === "buy" ? fill - ref : ref - fill
+                  lines.push(
+                    ``,
+                    `Price at Submission: $${formatMoney(ref)}`,
+                    `Slippage: ${slip >= 0 ? "+" : "-"}$${formatMoney(Math.abs(slip))}/share (${((slip / ref) * 10000).toFixed(1)} bps${slip < 0 ? ", price improvement" : ""})`,
+                  )
+                }
+              } catch (e) {
+                ctx.log.warn(`Could not load submission price for ${order.id}:`, e)
+              }
+            }
+
+            for (const leg of order.legs || []) {
+              lines.push(``, `Leg ${leg.id}: ${leg.side.toUpperCase()} ${leg.qty} ${leg.symbol} (${leg.order_type}) — ${leg.status}${leg.filled_avg_price ? ` @ $${formatMoney(leg.filled_avg_price)}` : ""}`)
+            }
+
+            return ok(lines.filter(line => line !== null).join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_replace_order",
+          description: "Modify an open order in place (qty, limit price, stop price, trail, time in force) without cancelling it first. Alpaca replaces it with a new order ID. Shows old vs new values. Live mode returns a preview and a confirmation token first.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              order_id: { type: "string", description: "ID of the open order to replace" },
+              qty: { type: "number", description: "New quantity" },
+              limit_price: { type: "number", description: "New limit price" },
+              stop_price: { type: "number", description: "New stop price" },
+              trail: { type: "number", description: "New trail amount (percent or dollars, matching the original trailing stop)" },
+              time_in_force: { type: "string", description: "New time in force", enum: ["day", "gtc", "opg", "cls", "ioc", "fok"] },
+              confirmation_token: { type: "string", description: "Token from a live-mode preview. Pass it with the same arguments to submit the previewed change." },
+            },
+            required: ["mode", "order_id"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const client = getClient(mode)
+            const changes: Record<string, unknown> = {}
+            if (args.qty) changes.qty = String(args.qty)
+            if (args.limit_price) changes.limit_price = String(args.limit_price)
+            if (args.stop_price) changes.stop_price = String(args.stop_price)
+            if (args.trail) changes.trail = String(args.trail)
+            if (args.time_in_force) changes.time_in_force = args.time_in_force
+            if (Object.keys(changes).length === 0) return err("Nothing to change. Pass qty, limit_price, stop_price, trail or time_in_force.")
+
+            const old = await client.getOrder(args.order_id as string)
+            const newQty = args.qty ? (args.qty as number) : parseFloat(old.qty)
+            const newPrice = (args.limit_price || args.stop_price) as number | undefined
+            const intent: OrderIntent = {
+              symbol: old.symbol,
+              side: old.side as "buy" | "sell",
+              assetClass: old.asset_class as AssetClass,
+              qty: Math.max(newQty - parseFloat(old.filled_qty || "0"), 0),
+              price: newPrice ?? (old.limit_price ? parseFloat(old.limit_price) : undefined),
+            }
+            const rejection = await checkRisk(mode, client, intent)
+            if (rejection) return err(rejection)
+
+            // The preview shows the order as it will stand after the change; the order ID ties the token to this order
+            const previewed = { order_id: old.id, type: old.order_type, time_in_force: old.time_in_force, ...changes }
+            const gate = await confirmGate(mode, client, "alpaca_replace_order", previewed, intent, args.confirmation_token)
+            if (gate) return gate
+
+            const result = await client.replaceOrder(old.id, changes)
+            try {
+              getJournal().replaceOrderId(old.id, result.id, JSON.stringify({ ...args, replaced: old.id }))
+            } catch (e) {
+              ctx.log.warn("Could not update journal for replaced order:", e)
+            }
+            const mirrored = await mirrorAction(mode, async (mirror, target) => {
+              const copy = await findMirrorOrder(mirror, old.id)
+              if (!copy) return `no copy of order ${old.id} to replace`
+              const mirrorQty = args.qty
+                ? scaleQty(args.qty as number, getMirrorScale(), isWholeUnits(copy.asset_class, args.qty as number))
+                : parseFloat(copy.qty)
+              const mirrorChanges: Record<string, unknown> = { ...changes, client_order_id: mirrorClientOrderId(result.id) }
+              if (args.qty) mirrorChanges.qty = String(mirrorQty)
+              const mirrorIntent: OrderIntent = {
+                symbol: copy.symbol,
+                side: copy.side as "buy" | "sell",
+                assetClass: copy.asset_class as AssetClass,
+                qty: Math.max(mirrorQty - parseFloat(copy.filled_qty || "0"), 0),
+                price: newPrice ?? (copy.limit_price ? parseFloat(copy.limit_price) : undefined),
+              }
+              const mirrorRejection = await checkRisk(target, mirror, mirrorIntent)
+              if (mirrorRejection) return `copy not replaced — ${mirrorRejection}`
+              if (target === "live") {
+                const preview = { order_id: copy.id, type: copy.order_type, time_in_force: copy.time_in_force, ...mirrorChanges }
+                return holdLiveMirror(mirror, {
+                  kind: "replace",
+                  sourceId: result.id,
+                  copyId: copy.id,
+                  changes: mirrorChanges,
+                  tool: "alpaca_replace_order",
+                  args,
+                  intent: mirrorIntent,
+                  expiresAt: Date.now() + CONFIRM_TTL_MS,
+                }, preview)
+              }
+              const replaced = await mirror.replaceOrder(copy.id, mirrorChanges)
+              try {
+                getJournal().replaceOrderId(copy.id, replaced.id, JSON.stringify({ ...args, replaced: copy.id, mirror_of: result.id }))
+              } catch (e) {
+                ctx.log.warn("Could not update journal for replaced mirror order:", e)
+              }
+              return `copy ${copy.id} replaced (new ID: ${replaced.id})`
+            })
+
+            const trailOf = (o: AlpacaOrder) => o.trail_percent ? `${o.trail_percent}%` : o.trail_price ? `$${formatMoney(o.trail_price)}` : null
+            const priceOf = (v: string | null) => v ? `$${formatMoney(v)}` : "—"
+            const rows: Array<[string, string | null, string | null]> = [
+              ["Qty", old.qty, result.qty],
+              ["Limit", priceOf(old.limit_price), priceOf(result.limit_price)],
+              ["Stop", priceOf(old.stop_price), priceOf(result.stop_price)],
+              ["Trail", trailOf(old), trailOf(result)],
+              ["TIF", old.time_in_force, result.time_in_force],
+            ]
+
+            const lines = [
+              `Order Replaced [${mode.toUpperCase()}]`,
+              `${result.side.toUpperCase()} ${result.symbol} (${result.order_type})`,
+              ``,
+            ]
+            for (const [label, before, after] of rows) {
+              if (!before && !after) continue
+              lines.push(`${label}: ${before ?? "—"} → ${after ?? "—"}${before === after ? " (unchanged)" : ""}`)
             }
+            lines.push(
+              ``,
+              `Status: ${result.status}`,
+              `Old Order ID: ${old.id}`,
+              `New Order ID: ${result.id}`,
+            )
+            if (mirrored) lines.push(mirrored)
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_cancel_order",
+          description: "Cancel a specific order by ID, or cancel all open orders.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              order_id: { type: "string", description: "Order ID to cancel. Omit to cancel ALL open orders." },
+            },
+            required: ["mode"]
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const client = getClient(mode)
+            if (args.order_id) {
+              const orderId = args.order_id as string
+              await client.cancelOrder(orderId)
+              const mirrored = await mirrorAction(mode, async (mirror) => {
+                const copy = await findMirrorOrder(mirror, orderId)
+                if (dropPendingMirrors(orderId) > 0 && !copy) return `unconfirmed copy of order ${orderId} dropped`
+                if (!copy) return `no copy of order ${orderId} to cancel`
+                await mirror.cancelOrder(copy.id)
+                return `copy ${copy.id} cancelled`
+              })
+              return ok(`Order ${orderId} cancelled [${mode.toUpperCase()}]${mirrored ? `\n${mirrored}` : ""}`)
+            } else {
+              await client.cancelAllOrders()
+              // Only cancel the copies, not orders placed on the mirror account directly
+              const mirrored = await mirrorAction(mode, async (mirror) => {
+                const dropped = dropPendingMirrors()
+                const copies = (await mirror.getOrders("open", 500)).filter(o => isMirrorOrder(o.client_order_id))
+                await Promise.all(copies.map(o => mirror.cancelOrder(o.id)))
+                return `${copies.length} mirrored order${copies.length === 1 ? "" : "s"} cancelled${dropped ? `, ${dropped} unconfirmed cop${dropped === 1 ? "y" : "ies"} dropped` : ""}`
+              })
+              return ok(`All open orders cancelled [${mode.toUpperCase()}]${mirrored ? `\n${mirrored}` : ""}`)
+            }
+          } catch (e) { return err(e) }
+        },
+      },
+
+      // ══════════════════════════════════════════════════════
+      //  POSITION MANAGEMENT
+      // ══════════════════════════════════════════════════════
+
+      {
+        definition: {
+          name: "alpaca_close_position",
+          description: "Close an open position partially or fully. Can specify qty or percentage.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              symbol: { type: "string", description: "Symbol to close" },
+              qty: { type: "number", description: "Number of shares to sell (omit for full close)" },
+              percentage: { type: "number", description: "Percentage of position to close (0-100)" },
+              rationale: { type: "string", description: "Why this trade is being made. Saved to the trade journal." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags for this trade (e.g. strategy or idea names)" },
+            },
+            required: ["mode", "symbol"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const symbol = (args.symbol as string).toUpperCase()
+            const qty = args.qty ? String(args.qty) : undefined
+            const pct = args.percentage ? String(args.percentage) : undefined
+            const client = getClient(mode)
+
+            if (hasActiveLimits(getRiskLimits(mode))) {
+              const position = await client.getPosition(symbol)
+              const held = Math.abs(parseFloat(position.qty))
+              const closeQty = args.qty ? (args.qty as number) : args.percentage ? held * (args.percentage as number) / 100 : held
+              const rejection = await checkRisk(mode, client, {
+                symbol,
+                side: parseFloat(position.qty) > 0 ? "sell" : "buy",
+                assetClass: position.asset_class as AssetClass,
+                qty: closeQty,
+                price: parseFloat(position.current_price),
+              })
+              if (rejection) return err(rejection)
+            }
+
+            const result = await client.closePosition(symbol, qty, pct)
+            journalOrder(mode, "alpaca_close_position", args, result)
+            // A percentage close carries over as is; a qty close is scaled
+            const mirrored = await mirrorAction(mode, async (mirror, target) => {
+              let mirrorQty: string | undefined
+              if (args.qty) {
+                const scaled = scaleQty(args.qty as number, getMirrorScale(), isWholeUnits(result.asset_class, args.qty as number))
+                if (scaled <= 0) return `skipped: size rounds to zero at scale ${getMirrorScale()}`
+                mirrorQty = String(scaled)
+              }
+              let copy: AlpacaOrder
+              try {
+                copy = await mirror.closePosition(symbol, mirrorQty, pct)
+              } catch (e) {
+                if (e instanceof NotFoundError) return `no ${symbol} position to close`
+                throw e
+              }
+              journalOrder(target, "alpaca_close_position", { ...args, mirror_of: result.id }, copy)
+              return `close order placed — ${copy.status} (ID: ${copy.id})`
+            })
+
+            return ok(`Position close order placed for ${symbol} [${mode.toUpperCase()}]\nStatus: ${result.status}\nOrder ID: ${result.id}${mirrored ? `\n${mirrored}` : ""}`)
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_close_all_positions",
+          description: "LIQUIDATE all positions and optionally cancel all open orders. Use with extreme caution.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              cancel_orders: { type: "boolean", description: "Also cancel all open orders (default: true)" },
+            },
+            required: ["mode"]
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const cancel = args.cancel_orders !== false
+            await getClient(mode).closeAllPositions(cancel)
+            // Liquidating the live account always takes its own call
+            const mirrored = await mirrorAction(mode, async (mirror, target) => {
+              if (target === "live") return "not mirrored — call alpaca_close_all_positions with mode live to liquidate the live account"
+              await mirror.closeAllPositions(cancel)
+              return `all positions closed${cancel ? " and orders cancelled" : ""}`
+            })
+            return ok(`All positions closed${cancel ? " and orders cancelled" : ""} [${mode.toUpperCase()}]${mirrored ? `\n${mirrored}` : ""}`)
+          } catch (e) { return err(e) }
         },
       },
 
+      // ══════════════════════════════════════════════════════
+      //  PORTFOLIO CONSTRUCTION
+      // ══════════════════════════════════════════════════════
+
       {
         definition: {
-          name: "alpaca_cancel_order",
-          description: "Cancel a specific order by ID, or cancel all open orders.",
+          name: "alpaca_rebalance",
+          description: "Rebalance the portfolio to target weights. Compares targets with current positions and equity and plans the buys and sells for symbols that have drifted past the threshold, respecting fractional support, minimum order sizes and a cash buffer. Returns a dry-run plan by default; pass execute: true to submit (sells first, then buys). Live execution needs the confirmation_token from a live dry run, and submits exactly the previewed orders.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -927,45 +3496,120 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 enum: ["paper", "live"],
                 description: "Which account to use. Required."
               },
-              order_id: { type: "string", description: "Order ID to cancel. Omit to cancel ALL open orders." },
+              targets: { type: "object", additionalProperties: { type: "number" }, description: "Target weights in percent of investable equity, e.g. {\"VTI\": 60, \"BND\": 40}. Must total 100 or less; the rest stays in cash." },
+              watchlist: { type: "string", description: "Watchlist name to weight equally (used when targets are not given)" },
+              drift_threshold: { type: "number", description: "Only trade symbols whose weight is off target by at least this many percentage points (default: 2)" },
+              cash_buffer: { type: "number", description: "Percent of equity to keep in cash (default: 2)" },
+              min_order_notional: { type: "number", description: "Skip orders worth less than this many dollars (default: 1)" },
+              sell_unlisted: { type: "boolean", description: "Sell positions that have no target (default: false, they are left alone)" },
+              execute: { type: "boolean", description: "Submit the orders (default: false, dry run)" },
+              rationale: { type: "string", description: "Why this rebalance is being made. Saved to the trade journal." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags for these trades" },
+              confirmation_token: { type: "string", description: "Token from a live dry run. Pass it with execute: true and the same arguments to submit the previewed orders." },
             },
-            required: ["mode"]
+            required: ["mode"],
           },
         },
         handler: async (args) => {
           try {
             const mode = args.mode as "paper" | "live"
             const client = getClient(mode)
-            if (args.order_id) {
-              await client.cancelOrder(args.order_id as string)
-              return ok(`Order ${args.order_id} cancelled [${mode.toUpperCase()}]`)
+            const { confirmation_token: token, execute, ...planArgs } = args
+
+            // A confirmed live rebalance submits the previewed orders, not a fresh plan
+            if (execute && mode === "live") {
+              if (!token) return err("Live rebalances need a confirmation_token. Call alpaca_rebalance without execute to preview the plan and get one.")
+              const pending = pendingRebalances.get(String(token))
+              if (!pending || pending.expiresAt <= Date.now()) return err(`Confirmation token "${token}" is unknown or expired. Preview the rebalance again.`)
+              if (pending.mode !== mode || JSON.stringify(pending.args) !== JSON.stringify(planArgs)) {
+                return err(`Rebalance arguments do not match the preview for token "${token}". Preview the changed rebalance again.`)
+              }
+              pendingRebalances.delete(String(token))
+              const lines = [`Rebalance Executed [${modeLabel(mode)}]`, ...await executeRebalance(mode, client, pending.context, args)]
+              return ok(lines.join("\n"))
+            }
+
+            const rc = await buildRebalance(client, planArgs)
+            const { plan } = rc
+            const pct = (n: number) => `${(n * 100).toFixed(2)}%`
+            const statusText: Record<string, string> = {
+              within_threshold: "within band",
+              below_minimum: "below minimum",
+              unlisted: "no target, kept",
+              no_price: "no price",
+            }
+
+            const lines = [
+              `Rebalance ${execute ? "" : "Plan "}[${modeLabel(mode)}]${execute ? "" : " — DRY RUN"}`,
+              `Equity: $${formatMoney(rc.equity)} | Investable: $${formatMoney(plan.investable)} (cash buffer ${pct(rc.cashBuffer)})`,
+              ``,
+              `Symbol      Value        Current   Target    Action`,
+            ]
+            for (const row of plan.rows) {
+              const trade = plan.trades.find(t => t.symbol === row.symbol)
+              const action = trade ? `${trade.side.toUpperCase()} ${trade.qty} (~$${formatMoney(trade.value)})` : statusText[row.status]
+              lines.push(`${row.symbol.padEnd(10)}  $${formatMoney(row.currentValue).padStart(11)}  ${pct(row.currentWeight).padStart(7)}  ${pct(row.targetWeight).padStart(7)}   ${action}`)
+            }
+
+            if (plan.trades.length === 0) {
+              lines.push(``, `Nothing to trade — every position is within the drift threshold.`)
+              return ok(lines.join("\n"))
+            }
+            const sold = plan.trades.filter(t => t.side === "sell").reduce((sum, t) => sum + t.value, 0)
+            const bought = plan.trades.filter(t => t.side === "buy").reduce((sum, t) => sum + t.value, 0)
+            lines.push(``, `${plan.trades.length} orders: sell ~$${formatMoney(sold)}, buy ~$${formatMoney(bought)} (sells are submitted first)`)
+
+            if (execute) {
+              lines.push(``, ...await executeRebalance(mode, client, rc, args))
+              return ok(lines.join("\n"))
+            }
+
+            if (mode === "live") {
+              const now = Date.now()
+              for (const [key, pending] of pendingRebalances) {
+                if (pending.expiresAt <= now) pendingRebalances.delete(key)
+              }
+              const confirmToken = crypto.randomUUID().split("-")[0]
+              pendingRebalances.set(confirmToken, { mode, args: planArgs, context: rc, expiresAt: now + CONFIRM_TTL_MS })
+              lines.push(
+                ``,
+                `Confirmation token: ${confirmToken} (expires in ${CONFIRM_TTL_MS / 60000} minutes)`,
+                `To submit these orders, call alpaca_rebalance again with the same arguments plus execute: true and confirmation_token: "${confirmToken}".`,
+              )
             } else {
-              await client.cancelAllOrders()
-              return ok(`All open orders cancelled [${mode.toUpperCase()}]`)
+              lines.push(``, `To submit, call alpaca_rebalance again with the same arguments plus execute: true.`)
             }
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
         },
       },
 
-      // ══════════════════════════════════════════════════════
-      //  POSITION MANAGEMENT
-      // ══════════════════════════════════════════════════════
-
       {
         definition: {
-          name: "alpaca_close_position",
-          description: "Close an open position partially or fully. Can specify qty or percentage.",
+          name: "alpaca_position_size",
+          description: "Risk-based position size for a stock: how many shares to trade so that hitting the stop loses a set percent of account equity. The stop comes from stop_price or an ATR multiple. The size is capped by buying power and the max-order and max-position guardrails, and rounded to whole shares unless the stock is fractionable. With place_order: true, the result is placed through alpaca_place_order as a bracket order (whole shares) with the stop and a take-profit.",
           inputSchema: {
             type: "object" as const,
             properties: {
               mode: {
                 type: "string",
                 enum: ["paper", "live"],
-                description: "Which account to use. Required."
+                description: "Which account to size against. Required."
               },
-              symbol: { type: "string", description: "Symbol to close" },
-              qty: { type: "number", description: "Number of shares to sell (omit for full close)" },
-              percentage: { type: "number", description: "Percentage of position to close (0-100)" },
+              symbol: { type: "string", description: "Ticker symbol" },
+              risk_percent: { type: "number", description: "Percent of equity to risk if the stop is hit (default: 1)" },
+              entry_price: { type: "number", description: "Planned entry; also the limit price when placing (default: latest price, entered at market)" },
+              stop_price: { type: "number", description: "Stop-loss price. Below entry sizes a long, above entry a short." },
+              atr_multiple: { type: "number", description: "Place the stop this many daily ATRs from entry (used when stop_price is not given)" },
+              atr_period: { type: "number", description: "ATR period in daily bars (default: 14)" },
+              side: { type: "string", description: "Direction when the stop comes from ATR (default: buy)", enum: ["buy", "sell"] },
+              reward_ratio: { type: "number", description: "Take-profit distance as a multiple of the risk per share, for place_order (default: 2)" },
+              take_profit_price: { type: "number", description: "Explicit take-profit price for place_order (overrides reward_ratio)" },
+              place_order: { type: "boolean", description: "Submit the sized order via alpaca_place_order as a bracket (default: false)" },
+              time_in_force: { type: "string", description: "Time in force when placing (default: day)", enum: ["day", "gtc"] },
+              rationale: { type: "string", description: "Why this trade is being made. Saved to the trade journal when placing." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags when placing" },
+              confirmation_token: { type: "string", description: "Token from a live-mode preview, passed through to alpaca_place_order" },
             },
             required: ["mode", "symbol"],
           },
@@ -973,40 +3617,228 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const mode = args.mode as "paper" | "live"
+            const client = getClient(mode)
             const symbol = (args.symbol as string).toUpperCase()
-            const qty = args.qty ? String(args.qty) : undefined
-            const pct = args.percentage ? String(args.percentage) : undefined
-            const result = await getClient(mode).closePosition(symbol, qty, pct)
+            const riskPercent = (args.risk_percent as number) || 1
+
+            const [account, positions, asset] = await Promise.all([client.getAccount(), client.getPositions(), getAssetCached(client, symbol)])
+            const entry = (args.entry_price as number) || await latestPrice(client, "us_equity", symbol)
+            if (!entry) return err(`No price available for ${symbol}; pass entry_price.`)
+
+            let stop = args.stop_price as number | undefined
+            let atrValue: number | null = null
+            if (!stop) {
+              if (!args.atr_multiple) return err("Pass stop_price or atr_multiple.")
+              const period = (args.atr_period as number) || 14
+              const bars = await fetchBars(client, symbol, "1Day", await tradingDaysAgo(client, period * 4), undefined, "split")
+              atrValue = last(atr(bars, period))
+              if (Number.isNaN(atrValue)) return err(`Not enough daily bars for ${symbol} to compute a ${period}-day ATR.`)
+              const distance = (args.atr_multiple as number) * atrValue
+              stop = Number(((args.side as string) === "sell" ? entry + distance : entry - distance).toFixed(2))
+            }
+
+            const equity = parseFloat(account.equity)
+            const held = positions.find(p => p.symbol === symbol)
+            const heldValue = held ? parseFloat(held.market_value) : 0
+            const limits = getRiskLimits(mode)
+            const long = stop < entry
+            const caps: SizingCap[] = [{ rule: "buying_power", maxValue: parseFloat(account.buying_power) }]
+            if (limits.maxOrderNotional > 0) caps.push({ rule: "max_order_notional", maxValue: limits.maxOrderNotional })
+            if (limits.maxPositionPct > 0) {
+              // Room left before the position (in this direction) hits the cap
+              const sameDirection = long ? Math.max(heldValue, 0) : Math.max(-heldValue, 0)
+              caps.push({ rule: "max_position_pct", maxValue: equity * limits.maxPositionPct / 100 - sameDirection })
+            }
+
+            // Bracket orders only take whole shares
+            const placing = !!args.place_order
+            const sizing = sizePosition({
+              equity,
+              riskFraction: riskPercent / 100,
+              entry,
+              stop,
+              fractional: asset.fractionable && !placing && long,
+              caps,
+            })
+
+            const capNames: Record<string, string> = {
+              risk: "the risk budget",
+              buying_power: "buying power",
+              max_order_notional: "the max order notional guardrail",
+              max_position_pct: "the max position % guardrail",
+            }
+            const lines = [
+              `Position Size: ${symbol} [${modeLabel(mode)}]`,
+              `${sizing.side === "buy" ? "LONG" : "SHORT"} ${sizing.qty} shares @ $${formatMoney(entry)} (~$${formatMoney(sizing.positionValue)}, ${((sizing.positionValue / equity) * 100).toFixed(1)}% of equity)`,
+              ``,
+              `Equity: $${formatMoney(equity)} | Risk budget: ${riskPercent}% = $${formatMoney(sizing.riskBudget)}`,
+              `Stop: $${formatMoney(stop)}${atrValue !== null ? ` (${args.atr_multiple} × ATR $${formatMoney(atrValue)})` : ""} | Risk per share: $${formatMoney(sizing.riskPerShare)}`,
+              `Risk at stop: $${formatMoney(sizing.riskAmount)} (${((sizing.riskAmount / equity) * 100).toFixed(2)}% of equity)`,
+              `Limited by: ${capNames[sizing.limitedBy] ?? sizing.limitedBy}${sizing.limitedBy !== "risk" ? ` (risk alone allows ${sizing.uncappedQty.toFixed(2)} shares)` : ""}`,
+              `Fractional: ${asset.fractionable ? (placing ? "yes, but bracket orders need whole shares" : long ? "yes" : "no, shorts need whole shares") : "no"}`,
+            ]
+            if (held) lines.push(`Existing position: ${held.qty} shares ($${formatMoney(heldValue)})`)
+            if (sizing.side === "sell") {
+              const problem = checkTradability(asset, { side: "sell", qty: Math.max(sizing.qty, 1), heldQty: held ? parseFloat(held.qty) : 0 })
+              if (problem) lines.push(`Warning: ${problem}`)
+            }
 
-            return ok(`Position close order placed for ${symbol} [${mode.toUpperCase()}]\nStatus: ${result.status}\nOrder ID: ${result.id}`)
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+            if (sizing.qty <= 0) {
+              lines.push(``, `The caps leave no room for this trade.`)
+              return ok(lines.join("\n"))
+            }
+            if (!placing) return ok(lines.join("\n"))
+
+            const takeProfit = (args.take_profit_price as number) || Number((long
+              ? entry + sizing.riskPerShare * ((args.reward_ratio as number) || 2)
+              : entry - sizing.riskPerShare * ((args.reward_ratio as number) || 2)).toFixed(2))
+            const orderArgs: Record<string, unknown> = {
+              mode,
+              symbol,
+              side: sizing.side,
+              qty: sizing.qty,
+              order_type: args.entry_price ? "limit" : "market",
+              ...(args.entry_price ? { limit_price: entry } : {}),
+              time_in_force: (args.time_in_force as string) || "day",
+              order_class: "bracket",
+              take_profit_price: takeProfit,
+              stop_loss_price: stop,
+              ...(args.rationale ? { rationale: args.rationale } : {}),
+              ...(args.tags ? { tags: args.tags } : {}),
+              ...(args.confirmation_token ? { confirmation_token: args.confirmation_token } : {}),
+            }
+            const placed = await placeStockOrder(orderArgs)
+            lines.push(``, placed.content[0].text)
+            if (mode === "live" && !args.confirmation_token && !placed.isError) {
+              const { confirmation_token: _token, ...shown } = orderArgs
+              lines.push(``, `alpaca_place_order arguments: ${JSON.stringify(shown)}`)
+            }
+            return { ...placed, content: [{ type: "text" as const, text: lines.join("\n") }] }
+          } catch (e) { return err(e) }
         },
       },
 
+      // ══════════════════════════════════════════════════════
+      //  BACKTESTING
+      // ══════════════════════════════════════════════════════
+
       {
         definition: {
-          name: "alpaca_close_all_positions",
-          description: "LIQUIDATE all positions and optionally cancel all open orders. Use with extreme caution.",
+          name: "alpaca_backtest",
+          description: "Backtest a rule-based long-only strategy on historical bars before risking even the paper account: SMA crossover, RSI mean reversion, or a breakout with an ATR stop. Signals are taken at the close and filled at the next open, with commissions, slippage and whole or fractional shares modelled. Reports return vs. buy-and-hold, Sharpe, drawdown, win rate, the trade list and an equity curve. Bars come from the API (cached locally), from the local bar cache only, or from a JSON/CSV fixture file — the last two run fully offline.",
           inputSchema: {
             type: "object" as const,
             properties: {
-              mode: {
-                type: "string",
-                enum: ["paper", "live"],
-                description: "Which account to use. Required."
-              },
-              cancel_orders: { type: "boolean", description: "Also cancel all open orders (default: true)" },
+              strategy: { type: "string", description: "sma_cross: buy when the fast SMA crosses above the slow, sell on the cross back. rsi_reversion: buy when RSI drops below rsi_entry, sell when it rises above rsi_exit. breakout: buy a close above the highest high of breakout_lookback bars, sell a close below the lowest low of exit_lookback bars or at the ATR stop.", enum: ["sma_cross", "rsi_reversion", "breakout"] },
+              symbol: { type: "string", description: "Ticker symbol (not needed with source \"file\")" },
+              source: { type: "string", description: "Where bars come from: api (fetch, using the bar cache), cache (stored bars only, offline), file (fixture at file_path, offline). Default: api", enum: ["api", "cache", "file"] },
+              file_path: { type: "string", description: "File in the plugin's fixtures directory, e.g. \"bars.csv\", for source \"file\": a JSON array of bars ({t, o, h, l, c, v}) or CSV with date/open/high/low/close/volume columns" },
+              timeframe: { type: "string", description: "Bar size (default: 1Day)", enum: ["1Min", "5Min", "15Min", "1Hour", "1Day"] },
+              days: { type: "number", description: "Trading days to test over, ending today (default: 750, about three years). Ignored when start is given." },
+              start: { type: "string", description: "Start date (YYYY-MM-DD); warm-up bars are fetched before it" },
+              end: { type: "string", description: "End date (YYYY-MM-DD, default: today)" },
+              adjustment: { type: "string", description: "Corporate action adjustment (default: all, so dividends count toward return)", enum: ["raw", "split", "dividend", "all"] },
+              fast_period: { type: "number", description: "sma_cross fast SMA (default: 50)" },
+              slow_period: { type: "number", description: "sma_cross slow SMA (default: 200)" },
+              rsi_period: { type: "number", description: "rsi_reversion RSI period (default: 14)" },
+              rsi_entry: { type: "number", description: "rsi_reversion buy below this RSI (default: 30)" },
+              rsi_exit: { type: "number", description: "rsi_reversion sell above this RSI (default: 55)" },
+              breakout_lookback: { type: "number", description: "breakout entry channel in bars (default: 20)" },
+              exit_lookback: { type: "number", description: "breakout exit channel in bars (default: 10)" },
+              atr_period: { type: "number", description: "breakout ATR period (default: 14)" },
+              atr_stop: { type: "number", description: "breakout stop distance in ATRs below entry (default: 2)" },
+              initial_cash: { type: "number", description: "Starting cash (default: 10000)" },
+              position_percent: { type: "number", description: "Percent of equity put into each entry (default: 100)" },
+              fractional: { type: "boolean", description: "Allow fractional shares (default: true); otherwise entries round down to whole shares" },
+              commission: { type: "number", description: "Flat commission per order in dollars (default: 0)" },
+              commission_bps: { type: "number", description: "Commission in basis points of order value (default: 0)" },
+              slippage_bps: { type: "number", description: "Adverse slippage per fill in basis points (default: 5)" },
+              show_trades: { type: "number", description: "Most recent trades to list (default: 10, max: 50)" },
             },
-            required: ["mode"]
+            required: ["strategy"],
           },
         },
         handler: async (args) => {
           try {
-            const mode = args.mode as "paper" | "live"
-            const cancel = args.cancel_orders !== false
-            await getClient(mode).closeAllPositions(cancel)
-            return ok(`All positions closed${cancel ? " and orders cancelled" : ""} [${mode.toUpperCase()}]`)
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+            const num = (key: string, fallback: number) => typeof args[key] === "number" ? args[key] as number : fallback
+            let spec: StrategySpec
+            switch (args.strategy as StrategySpec["type"]) {
+              case "sma_cross":
+                spec = { type: "sma_cross", fast: num("fast_period", 50), slow: num("slow_period", 200) }
+                break
+              case "rsi_reversion":
+                spec = { type: "rsi_reversion", period: num("rsi_period", 14), entry: num("rsi_entry", 30), exit: num("rsi_exit", 55) }
+                break
+              case "breakout":
+                spec = { type: "breakout", lookback: num("breakout_lookback", 20), exitLookback: num("exit_lookback", 10), atrPeriod: num("atr_period", 14), atrStop: num("atr_stop", 2) }
+                break
+              default:
+                return err(`Unknown strategy "${args.strategy}". Use sma_cross, rsi_reversion or breakout.`)
+            }
+
+            const warmup = strategyWarmup(spec)
+            const { bars, from, label } = await loadBacktestBars(args, warmup)
+            const timeframe = (args.timeframe as string) || "1Day"
+            const periodsPerYear = PERIODS_PER_YEAR[({ "1Hour": "1H", "1Day": "1D" } as Record<string, string>)[timeframe] ?? timeframe] ?? 252
+            const initialCash = num("initial_cash", 10000)
+            const positionPct = Math.min(Math.max(num("position_percent", 100), 1), 100)
+            const config = {
+              initialCash,
+              commissionPerOrder: num("commission", 0),
+              commissionBps: num("commission_bps", 0),
+              slippageBps: num("slippage_bps", 5),
+              fractional: args.fractional !== false,
+              positionFraction: positionPct / 100,
+              periodsPerYear,
+            }
+
+            const result = runBacktest(bars, createStrategy(spec, bars), config, from)
+            const s = result.stats
+            const at = (t: string) => new Date(t).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+            const pct = (n: number) => `${n >= 0 ? "+" : ""}${(n * 100).toFixed(2)}%`
+            const signed = (n: number) => `${n >= 0 ? "+" : "-"}$${formatMoney(Math.abs(n))}`
+            const dd = s.maxDrawdown
+            const equity = result.equity
+
+            const lines = [
+              `Backtest: ${result.strategy}`,
+              `Data: ${label}`,
+              `Window: ${at(equity[0].t)} → ${at(equity[equity.length - 1].t)} (${equity.length} bars after ${from} warm-up)`,
+              `Costs: $${formatMoney(config.commissionPerOrder)}/order + ${config.commissionBps} bps commission, ${config.slippageBps} bps slippage | ${config.fractional ? "fractional" : "whole"} shares | ${positionPct}% of equity per entry`,
+              ``,
+              `Results:`,
+              `  Equity: $${formatMoney(initialCash)} → $${formatMoney(s.finalEquity)} (${pct(s.totalReturn)})`,
+              `  Buy & hold: ${pct(s.buyAndHoldReturn)} | Strategy ${s.totalReturn >= s.buyAndHoldReturn ? "beat" : "lagged"} it by ${(Math.abs(s.totalReturn - s.buyAndHoldReturn) * 100).toFixed(2)} points`,
+              `  Sharpe: ${s.sharpe.toFixed(2)} | Sortino: ${s.sortino.toFixed(2)} | Volatility (ann.): ${(s.annualizedVolatility * 100).toFixed(2)}%`,
+              `  Max Drawdown: -${(dd.depth * 100).toFixed(2)}%${dd.depth > 0 ? ` (peak ${at(equity[dd.peakIndex].t)} → trough ${at(equity[dd.troughIndex].t)})` : ""}`,
+              `  Exposure: ${(s.exposure * 100).toFixed(1)}% of bars in the market | Commissions: $${formatMoney(s.commissions)}`,
+              ``,
+              `Trades: ${s.trades}`,
+            ]
+            if (s.trades > 0) {
+              const profitFactor = Number.isFinite(s.profitFactor) ? s.profitFactor.toFixed(2) : "∞"
+              lines.push(
+                `  Win rate: ${(s.tradeWinRate * 100).toFixed(1)}% | Avg win: ${signed(s.avgWin)} | Avg loss: ${signed(s.avgLoss)} | Profit factor: ${profitFactor}`,
+              )
+              const shown = Math.min(Math.max(num("show_trades", 10), 0), 50)
+              if (shown > 0) {
+                lines.push(``, `Last ${Math.min(shown, s.trades)} trades:`)
+                for (const t of result.trades.slice(-shown)) {
+                  lines.push(`  ${at(t.entryTime)} → ${at(t.exitTime)} (${t.bars} bars, ${t.exitReason}): ${Number(t.qty.toFixed(6))} sh @ $${formatMoney(t.entryPrice)} → $${formatMoney(t.exitPrice)} | ${signed(t.pnl)} (${t.returnPct >= 0 ? "+" : ""}${t.returnPct.toFixed(2)}%)`)
+                }
+              }
+            }
+
+            // Sample the equity curve down to about a dozen points
+            const step = Math.max(1, Math.ceil(equity.length / 12))
+            lines.push(``, `Equity curve:`)
+            for (let i = 0; i < equity.length; i += step) {
+              lines.push(`  ${at(equity[i].t)}: $${formatMoney(equity[i].value)}`)
+            }
+            if ((equity.length - 1) % step !== 0) lines.push(`  ${at(equity[equity.length - 1].t)}: $${formatMoney(equity[equity.length - 1].value)}`)
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
         },
       },
 
@@ -1037,7 +3869,87 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               `Next Close: ${nextClose}`,
             ]
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_market_calendar",
+          description: "US equity market calendar. range: trading days, early closes and holidays between two dates. check: whether a date is a trading day, with its hours and the neighbouring sessions. offset: the date N trading days before or after a date. count: trading days between two dates.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              action: { type: "string", description: "What to look up (default: range)", enum: ["range", "check", "offset", "count"] },
+              start: { type: "string", description: "Range start YYYY-MM-DD (range, count; default: today)" },
+              end: { type: "string", description: "Range end YYYY-MM-DD, inclusive (range, count; default: 30 days after start)" },
+              date: { type: "string", description: "Date YYYY-MM-DD (check, offset; default: today)" },
+              sessions: { type: "number", description: "Trading days to step from date, negative for earlier (offset)" },
+            },
+            required: [],
+          },
+        },
+        handler: async (args) => {
+          try {
+            // Calendar is same for paper/live - use whichever is configured
+            const client = getPaperClient() || getLiveClient()
+            if (!client) return err("No trading credentials configured")
+
+            const action = (args.action as string) || "range"
+            const today = exchangeToday()
+            const fmt = (date: string) => new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })
+
+            if (action === "check") {
+              const date = (args.date as string) || today
+              const calendar = await getTradingCalendar(client, addCalendarDays(date, -10), addCalendarDays(date, 10))
+              if (!calendar.covers(date)) return err(`No calendar data for ${date}.`)
+              const day = calendar.day(date)
+              const prev = calendar.previous(date)
+              const next = calendar.next(date)
+              const lines = [
+                day
+                  ? `${fmt(date)} is a trading day: ${day.open}–${day.close} ET${calendar.isEarlyClose(day) ? " (early close)" : ""}`
+                  : `${fmt(date)} is not a trading day`,
+              ]
+              if (prev) lines.push(`Previous session: ${fmt(prev)}`)
+              if (next) lines.push(`Next session: ${fmt(next)}`)
+              return ok(lines.join("\n"))
+            }
+
+            if (action === "offset") {
+              if (args.sessions === undefined) return err("sessions is required for offset.")
+              const date = (args.date as string) || today
+              const n = Math.trunc(args.sessions as number)
+              const calendar = await getTradingCalendar(client, addCalendarDays(date, -Math.abs(n) * 2 - 10), addCalendarDays(date, Math.abs(n) * 2 + 10))
+              const target = calendar.offset(date, n)
+              if (!target) return err(`${n} trading days from ${date} is outside the published calendar.`)
+              return ok(`${Math.abs(n)} trading day${Math.abs(n) === 1 ? "" : "s"} ${n >= 0 ? "after" : "before"} ${fmt(date)}: ${fmt(target)} (${Math.abs(calendarDaysBetween(date, target))} calendar days)`)
+            }
+
+            const start = (args.start as string) || today
+            const end = (args.end as string) || addCalendarDays(start, 30)
+            if (end < start) return err("end must not be before start.")
+            const calendar = await getTradingCalendar(client, start, end)
+            const sessions = calendar.between(start, end)
+            const earlyCloses = sessions.filter(d => calendar.isEarlyClose(d))
+            const holidays = calendar.holidays(start, end)
+
+            if (action === "count") {
+              return ok(`${fmt(start)} → ${fmt(end)}: ${sessions.length} trading days (${calendarDaysBetween(start, end) + 1} calendar days, ${holidays.length} holidays, ${earlyCloses.length} early closes)`)
+            }
+
+            const lines = [`Market calendar ${fmt(start)} → ${fmt(end)}: ${sessions.length} trading days`]
+            lines.push(``, `Holidays:`)
+            if (holidays.length === 0) lines.push(`  None`)
+            for (const date of holidays) lines.push(`  ${fmt(date)}`)
+            lines.push(``, `Early closes:`)
+            if (earlyCloses.length === 0) lines.push(`  None`)
+            for (const d of earlyCloses) lines.push(`  ${fmt(d.date)} — closes ${d.close} ET`)
+            lines.push(``, `Trading days:`)
+            for (const d of sessions.slice(0, 60)) lines.push(`  ${fmt(d.date)} ${d.open}–${d.close}`)
+            if (sessions.length > 60) lines.push(`  ... and ${sessions.length - 60} more`)
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
         },
       },
 
@@ -1048,7 +3960,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
       {
         definition: {
           name: "alpaca_watchlists",
-          description: "List, create, or view Alpaca watchlists.",
+          description: "Manage Alpaca watchlists. list: all watchlists. create: new watchlist with symbols. view: a watchlist's symbols. add/remove: one or more symbols. rename: change its name. delete: remove the watchlist. board: live quote board with price, change, volume and distance from the 52-week high and low. Identify a watchlist by watchlist_id or name.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -1057,10 +3969,11 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 enum: ["paper", "live"],
                 description: "Which account to use. Required."
               },
-              action: { type: "string", description: "Action to perform", enum: ["list", "create", "view"] },
-              name: { type: "string", description: "Watchlist name (for create)" },
-              symbols: { type: "array", items: { type: "string" }, description: "Symbols to add (for create)" },
-              watchlist_id: { type: "string", description: "Watchlist ID (for view)" },
+              action: { type: "string", description: "Action to perform", enum: ["list", "create", "view", "add", "remove", "rename", "delete", "board"] },
+              name: { type: "string", description: "Watchlist name (for create, or to look a watchlist up by name)" },
+              symbols: { type: "array", items: { type: "string" }, description: "Symbols (for create, add, remove)" },
+              watchlist_id: { type: "string", description: "Watchlist ID (alternative to name)" },
+              new_name: { type: "string", description: "New name (for rename)" },
             },
             required: ["mode"]
           },
@@ -1070,27 +3983,278 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             const mode = args.mode as "paper" | "live"
             const client = getClient(mode)
             const action = (args.action as string) || "list"
+            const label = mode.toUpperCase()
+            const symbols = ((args.symbols as string[]) || []).map(s => s.toUpperCase())
 
             if (action === "create") {
               if (!args.name) return err("Name is required to create a watchlist.")
-              const symbols = (args.symbols as string[]) || []
-              await client.createWatchlist(args.name as string, symbols.map(s => s.toUpperCase()))
-              return ok(`Watchlist "${args.name}" created with ${symbols.length} symbols [${mode.toUpperCase()}]`)
+              await client.createWatchlist(args.name as string, symbols)
+              return ok(`Watchlist "${args.name}" created with ${symbols.length} symbols [${label}]`)
             }
 
-            if (action === "view" && args.watchlist_id) {
-              const wl = await client.getWatchlist(args.watchlist_id as string)
+            if (action === "list") {
+              const watchlists = await client.getWatchlists()
+              if (watchlists.length === 0) return ok(`No watchlists [${label}].`)
+              const lines = watchlists.map(w => `${w.name} (ID: ${w.id})`)
+              return ok(`Watchlists [${label}]:\n${lines.join("\n")}`)
+            }
+
+            if (!args.watchlist_id && !args.name) return err(`watchlist_id or name is required for ${action}.`)
+            const wl = args.watchlist_id
+              ? await client.getWatchlist(args.watchlist_id as string)
+              : await client.getWatchlistByName(args.name as string)
+
+            if (action === "view") {
               const syms = wl.assets.map(a => a.symbol).join(", ")
-              return ok(`${wl.name}: ${syms || "(empty)"} [${mode.toUpperCase()}]`)
+              return ok(`${wl.name}: ${syms || "(empty)"} [${label}]`)
+            }
+
+            if (action === "add" || action === "remove") {
+              if (symbols.length === 0) return err(`symbols are required for ${action}.`)
+              const present = new Set(wl.assets.map(a => a.symbol))
+              let updated = wl
+              const skipped: string[] = []
+              for (const symbol of symbols) {
+                if (action === "add" ? present.has(symbol) : !present.has(symbol)) { skipped.push(symbol); continue }
+                updated = action === "add" ? await client.addToWatchlist(wl.id, symbol) : await client.removeFromWatchlist(wl.id, symbol)
+              }
+              const changed = symbols.filter(s => !skipped.includes(s))
+              const lines = [`${action === "add" ? "Added" : "Removed"} ${changed.length ? changed.join(", ") : "nothing"} ${action === "add" ? "to" : "from"} "${wl.name}" [${label}]`]
+              if (skipped.length) lines.push(`${action === "add" ? "Already on the list" : "Not on the list"}: ${skipped.join(", ")}`)
+              lines.push(`Now: ${updated.assets.map(a => a.symbol).join(", ") || "(empty)"}`)
+              return ok(lines.join("\n"))
+            }
+
+            if (action === "rename") {
+              if (!args.new_name) return err("new_name is required for rename.")
+              // PUT replaces the symbol list too, so send the current one back
+              await client.updateWatchlist(wl.id, { name: args.new_name as string, symbols: wl.assets.map(a => a.symbol) })
+              return ok(`Watchlist "${wl.name}" renamed to "${args.new_name}" [${label}]`)
+            }
+
+            if (action === "delete") {
+              await client.deleteWatchlist(wl.id)
+              return ok(`Watchlist "${wl.name}" deleted (${wl.assets.length} symbols) [${label}]`)
+            }
+
+            if (action === "board") {
+              if (wl.assets.length === 0) return ok(`${wl.name} is empty [${label}].`)
+              return ok(await watchlistBoard(client, wl, label))
+            }
+
+            return err(`Unknown action "${action}".`)
+          } catch (e) { return err(e) }
+        },
+      },
+      // ══════════════════════════════════════════════════════
+      //  PRICE ALERTS
+      // ══════════════════════════════════════════════════════
+
+      {
+        definition: {
+          name: "alpaca_alert_create",
+          description: "Create a stock price alert, checked every minute. Conditions: price_cross (price crosses threshold above/below), percent_move (move of threshold % from previous close, up/down/either), volume_spike (today's volume reaches threshold x the previous day's). One-shot by default; rearm=true fires again each time the condition clears and recurs. Triggered alerts are posted to the chat along with any position held.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Ticker symbol" },
+              condition: { type: "string", description: "Alert condition", enum: ["price_cross", "percent_move", "volume_spike"] },
+              threshold: { type: "number", description: "Price for price_cross, percent for percent_move, volume multiple for volume_spike" },
+              direction: { type: "string", description: "above/below for price_cross (default: above); up/down/either for percent_move (default: either)", enum: ["above", "below", "up", "down", "either"] },
+              rearm: { type: "boolean", description: "Re-arm after the condition clears instead of firing once (default: false)" },
+              note: { type: "string", description: "Optional note included in the notification" },
+            },
+            required: ["symbol", "condition", "threshold"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const symbol = (args.symbol as string).toUpperCase()
+            const condition = args.condition as AlertCondition
+            const threshold = args.threshold as number
+            if (!(threshold > 0)) return err("Threshold must be a positive number.")
+
+            let direction = args.direction as AlertDirection | undefined
+            if (condition === "price_cross") {
+              direction ??= "above"
+              if (direction !== "above" && direction !== "below") return err("price_cross direction must be above or below.")
+            } else if (condition === "percent_move") {
+              direction ??= "either"
+              if (direction !== "up" && direction !== "down" && direction !== "either") return err("percent_move direction must be up, down or either.")
+            } else {
+              direction = "above"
+            }
+
+            // A cross needs the price to start on the near side of the threshold
+            let already: number | null = null
+            if (condition === "price_cross") {
+              const client = getPaperClient() || getLiveClient()
+              const price = client ? (await client.getSnapshot(symbol)).latestTrade?.p : undefined
+              if (price !== undefined && conditionMet({ condition, direction, threshold }, { price, prevClose: 0, volume: 0, prevVolume: 0 })) already = price
+            }
+
+            const alert = getAlertStore().create({
+              symbol,
+              condition,
+              direction,
+              threshold,
+              rearm: args.rearm === true,
+              armed: already === null,
+              note: (args.note as string) || null,
+            })
+            const waiting = already === null
+              ? ""
+              : `\n${symbol} is already at $${formatMoney(already)}; the alert arms once the price is back ${direction === "below" ? "above" : "below"} $${threshold}`
+            return ok(`Alert #${alert.id} created: ${describeAlert(alert)} (${alert.rearm ? "re-arming" : "one-shot"})${waiting}`)
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_alert_list",
+          description: "List price alerts with their status and trigger history.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              symbol: { type: "string", description: "Only show alerts for this symbol" },
+            },
+            required: [],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const alerts = getAlertStore().list(args.symbol ? (args.symbol as string).toUpperCase() : undefined)
+            if (alerts.length === 0) return ok("No price alerts.")
+
+            const lines = [`Price Alerts (${alerts.length})`, ``]
+            for (const a of alerts) {
+              const status = a.armed ? "armed" : a.trigger_count === 0 ? "waiting for the price to move back" : a.rearm ? "fired, waiting to re-arm" : "spent"
+              const last = a.last_triggered_at
+                ? ` | last fired ${new Date(a.last_triggered_at).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}`
+                : ""
+              lines.push(
+                `#${a.id} ${describeAlert(a)}`,
+                `  ${a.rearm ? "Re-arming" : "One-shot"} | ${status} | fired ${a.trigger_count}x${last}`,
+                ...(a.note ? [`  Note: ${a.note}`] : []),
+                ``
+              )
+            }
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_alert_delete",
+          description: "Delete a price alert by ID.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              id: { type: "number", description: "Alert ID from alpaca_alert_list" },
+            },
+            required: ["id"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const id = args.id as number
+            if (!getAlertStore().delete(id)) return err(`Alert #${id} not found.`)
+            return ok(`Alert #${id} deleted.`)
+          } catch (e) { return err(e) }
+        },
+      },
+
+      // ══════════════════════════════════════════════════════
+      //  TRADE JOURNAL
+      // ══════════════════════════════════════════════════════
+
+      {
+        definition: {
+          name: "alpaca_journal",
+          description: "Query the trade journal: every order submitted through this plugin with its rationale, tags and fills. Entries on the same symbol are linked into ideas (round trips from flat back to flat) with realized P&L. Filter by mode, symbol, date range and tag.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: { type: "string", description: "Only entries for this account", enum: ["paper", "live"] },
+              symbol: { type: "string", description: "Only entries for this symbol" },
+              tag: { type: "string", description: "Only entries with this tag" },
+              start_date: { type: "string", description: "Entries on or after YYYY-MM-DD" },
+              end_date: { type: "string", description: "Entries on or before YYYY-MM-DD" },
+              limit: { type: "number", description: "Max entries to return (default: 20, max: 200)" },
+            },
+            required: [],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const store = getJournal()
+            const mode = args.mode as "paper" | "live" | undefined
+
+            // Pick up fills the stream missed (or when it is disabled)
+            for (const m of mode ? [mode] : (["paper", "live"] as const)) {
+              const client = m === "paper" ? getPaperClient() : getLiveClient()
+              if (!client) continue
+              for (const entry of store.pending(m)) {
+                try { store.applyOrderUpdate(await client.getOrder(entry.order_id)) }
+                catch (e) { ctx.log.warn(`Could not refresh journal order ${entry.order_id}:`, e) }
+              }
             }
 
-            const watchlists = await client.getWatchlists()
-            if (watchlists.length === 0) return ok(`No watchlists [${mode.toUpperCase()}].`)
-            const lines = watchlists.map(w => `${w.name} (ID: ${w.id})`)
-            return ok(`Watchlists [${mode.toUpperCase()}]:\n${lines.join("\n")}`)
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+            const filter = {
+              mode,
+              symbol: args.symbol ? (args.symbol as string).toUpperCase() : undefined,
+              tag: args.tag as string | undefined,
+              start: args.start_date as string | undefined,
+              end: args.end_date as string | undefined,
+              limit: Math.min((args.limit as number) || 20, 200),
+            }
+            const entries = store.query(filter)
+            if (entries.length === 0) return ok("No journal entries match.")
+
+            const describe = (e: JournalEntry) => {
+              const time = new Date(e.created_at).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+              const fill = e.filled_qty && e.filled_avg_price !== null
+                ? `filled ${e.filled_qty} @ $${formatMoney(e.filled_avg_price)}`
+                : e.status
+              return `#${e.id} ${time} [${modeLabel(e.mode)}] ${e.side.toUpperCase()} ${e.qty ?? ""} ${e.symbol} — ${fill}`
+            }
+
+            const lines = [`Trade Journal (${entries.length} entries)`, ``]
+            for (const e of entries) {
+              const tags = parseTags(e.tags)
+              lines.push(
+                describe(e),
+                `  Tool: ${e.tool} | Order: ${e.order_id}${e.idea_id ? ` | Idea #${e.idea_id}` : ""}`,
+                ...(tags.length ? [`  Tags: ${tags.join(", ")}`] : []),
+                ...(e.rationale ? [`  Rationale: ${e.rationale}`] : []),
+                ``
+              )
+            }
+
+            const ideas = store.ideas(filter)
+            if (ideas.length > 0) {
+              const closed = ideas.filter(i => i.closed_at)
+              const realized = closed.reduce((sum, i) => sum + (i.realized_pl ?? 0), 0)
+              const day = (v: string) => new Date(v).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+              lines.push(`Ideas (${closed.length} closed, ${ideas.length - closed.length} open)`)
+              for (const i of ideas) {
+                if (i.closed_at) {
+                  const pl = i.realized_pl ?? 0
+                  lines.push(`  Idea #${i.id} ${i.symbol} [${modeLabel(i.mode)}] ${day(i.opened_at)} → ${day(i.closed_at)}: ${pl >= 0 ? "+" : "-"}$${formatMoney(Math.abs(pl))}`)
+                } else {
+                  lines.push(`  Idea #${i.id} ${i.symbol} [${modeLabel(i.mode)}] opened ${day(i.opened_at)}: open`)
+                }
+              }
+              lines.push(`Total Realized: ${realized >= 0 ? "+" : "-"}$${formatMoney(Math.abs(realized))}`)
+            }
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
         },
       },
+
       // ══════════════════════════════════════════════════════
       //  OPTIONS TRADING
       // ══════════════════════════════════════════════════════
@@ -1136,25 +4300,26 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
 
             if (contracts.length === 0) return ok("No option contracts found matching criteria.")
 
+            const calendar = await getTradingCalendar(client).catch(() => null)
             const lines = [`Option Contracts for ${(args.underlying_symbol as string).toUpperCase()} (${contracts.length} found)`, ``]
             for (const c of contracts) {
               const oi = c.open_interest ? `OI: ${c.open_interest}` : "OI: N/A"
               const lastPrice = c.close_price ? `Last: $${formatMoney(c.close_price)}` : "Last: N/A"
               lines.push(
-                `${c.symbol} — ${c.type.toUpperCase()} $${formatMoney(c.strike_price)} exp ${c.expiration_date}`,
+                `${c.symbol} — ${c.type.toUpperCase()} $${formatMoney(c.strike_price)} exp ${formatExpiry(c.expiration_date, calendar)}`,
                 `  ${lastPrice} | ${oi} | Tradable: ${c.tradable ? "Yes" : "No"}`,
                 ``
               )
             }
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
       {
         definition: {
           name: "alpaca_place_option_order",
-          description: "Place an options order. Use alpaca_option_contracts first to find the contract symbol. Supports market, limit, stop, and stop-limit orders. Options orders must use time_in_force='day' and whole number quantities only.",
+          description: "Place an options order. Use alpaca_option_contracts first to find the contract symbol. Supports market, limit, stop, and stop-limit orders. Options orders must use time_in_force='day' and whole number quantities only. Live orders return a preview with a confirmation token first; call again with the same arguments plus confirmation_token to submit.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -1169,6 +4334,9 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               order_type: { type: "string", description: "Order type", enum: ["market", "limit", "stop", "stop_limit"] },
               limit_price: { type: "number", description: "Limit price per contract (required for limit and stop_limit)" },
               stop_price: { type: "number", description: "Stop price (required for stop and stop_limit)" },
+              rationale: { type: "string", description: "Why this trade is being made. Saved to the trade journal." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags for this trade (e.g. strategy or idea names)" },
+              confirmation_token: { type: "string", description: "Token from a live-mode preview. Pass it with the same arguments to submit the previewed order." },
             },
             required: ["mode", "symbol", "side", "qty"],
           },
@@ -1189,7 +4357,23 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             if (args.limit_price) order.limit_price = String(args.limit_price)
             if (args.stop_price) order.stop_price = String(args.stop_price)
 
-            const result = await getClient(mode).placeOrder(order)
+            const client = getClient(mode)
+            const intent: OrderIntent = {
+              symbol: order.symbol as string,
+              side: order.side as "buy" | "sell",
+              assetClass: "us_option",
+              qty,
+              price: (args.limit_price || args.stop_price) as number | undefined,
+            }
+            const rejection = await checkRisk(mode, client, intent)
+            if (rejection) return err(rejection)
+
+            const gate = await confirmGate(mode, client, "alpaca_place_option_order", order, intent, args.confirmation_token)
+            if (gate) return gate
+
+            const result = await client.placeOrder(order)
+            journalOrder(mode, "alpaca_place_option_order", args, result)
+            const mirrored = await mirrorOrder(mode, "alpaca_place_option_order", args, order, result, intent)
 
             const lines = [
               `Options Order Placed [${mode.toUpperCase()}]`,
@@ -1199,10 +4383,141 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               result.stop_price ? `Stop: $${formatMoney(result.stop_price)}` : null,
               `Status: ${result.status}`,
               `Order ID: ${result.id}`,
+              mirrored,
+            ].filter(Boolean)
+
+            return ok(lines.join("\n"))
+          } catch (e) { return err(e) }
+        },
+      },
+
+      {
+        definition: {
+          name: "alpaca_place_multileg_option_order",
+          description: "Place a multi-leg options order (2-4 legs) as a single mleg order with a net debit or credit limit, so spreads fill together. Either pass explicit legs, or a strategy preset (vertical, straddle, strangle, iron_condor, calendar) whose contracts are looked up for you. Live orders return a preview with a confirmation token first; call again with the same arguments plus confirmation_token to submit.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["paper", "live"],
+                description: "Which account to use. Required."
+              },
+              legs: {
+                type: "array",
+                description: "Explicit legs (2-4). Omit when using a strategy preset.",
+                items: {
+                  type: "object",
+                  properties: {
+                    symbol: { type: "string", description: "Option contract symbol in OCC format" },
+                    side: { type: "string", enum: ["buy", "sell"] },
+                    ratio: { type: "number", description: "Ratio quantity for this leg (default: 1)" },
+                  },
+                  required: ["symbol", "side"],
+                },
+              },
+              strategy: { type: "string", description: "Preset to build the legs from. vertical: buy strikes[0], sell strikes[1]. straddle: call and put at strikes[0]. strangle: put at strikes[0], call at strikes[1]. iron_condor: 4 ascending strikes, buys the inner strikes and sells the wings (direction sell gives the usual credit condor). calendar: sells expiration_date, buys far_expiration_date at strikes[0].", enum: ["vertical", "straddle", "strangle", "iron_condor", "calendar"] },
+              underlying_symbol: { type: "string", description: "Underlying stock symbol (for presets)" },
+              expiration_date: { type: "string", description: "Expiration YYYY-MM-DD (for presets; near month for calendars)" },
+              far_expiration_date: { type: "string", description: "Back-month expiration YYYY-MM-DD (calendar only)" },
+              strikes: { type: "array", items: { type: "number" }, description: "Strike prices for the preset, as described under strategy" },
+              option_type: { type: "string", description: "call or put (vertical and calendar)", enum: ["call", "put"] },
+              direction: { type: "string", description: "buy (default) or sell the structure. Selling flips every leg.", enum: ["buy", "sell"] },
+              qty: { type: "number", description: "Number of spreads (whole numbers only)" },
+              limit_price: { type: "number", description: "Net limit price per spread. Omit for a market order." },
+              price_type: { type: "string", description: "Whether limit_price is a net debit paid or a net credit received (default: debit)", enum: ["debit", "credit"] },
+              rationale: { type: "string", description: "Why this trade is being made. Saved to the trade journal." },
+              tags: { type: "array", items: { type: "string" }, description: "Journal tags for this trade (e.g. strategy or idea names)" },
+              confirmation_token: { type: "string", description: "Token from a live-mode preview. Pass it with the same arguments to submit the previewed order." },
+            },
+            required: ["mode", "qty"],
+          },
+        },
+        handler: async (args) => {
+          try {
+            const mode = args.mode as "paper" | "live"
+            const qty = Math.floor(args.qty as number)
+            if (qty < 1) return err("Options qty must be at least 1 whole spread.")
+
+            const client = getClient(mode)
+            let legs: OrderLeg[]
+            let underlying: string
+
+            if (args.strategy) {
+              if (!args.underlying_symbol || !args.expiration_date || !args.strikes) {
+                return err("Strategy presets need underlying_symbol, expiration_date and strikes.")
+              }
+              underlying = (args.underlying_symbol as string).toUpperCase()
+              const specs = buildStrategyLegs(args.strategy as OptionStrategy, {
+                optionType: args.option_type as "call" | "put" | undefined,
+                strikes: args.strikes as number[],
+                expiration: args.expiration_date as string,
+                farExpiration: args.far_expiration_date as string | undefined,
+                direction: (args.direction as "buy" | "sell") || "buy",
+              })
+              legs = await Promise.all(specs.map(async spec => {
+                const result = await client.getOptionContracts({
+                  underlying_symbols: underlying,
+                  expiration_date: spec.expiration,
+                  type: spec.type,
+                  strike_price_gte: String(spec.strike),
+                  strike_price_lte: String(spec.strike),
+                  limit: "1",
+                })
+                const contract = result.option_contracts?.[0]
+                if (!contract) throw new Error(`No ${spec.type} contract for ${underlying} at $${spec.strike} expiring ${spec.expiration}.`)
+                if (!contract.tradable) throw new Error(`${contract.symbol} is not tradable.`)
+                return { symbol: contract.symbol, side: spec.side, ratio: spec.ratio }
+              }))
+            } else if (Array.isArray(args.legs)) {
+              legs = (args.legs as Array<Record<string, unknown>>).map(l => ({
+                symbol: (l.symbol as string).toUpperCase(),
+                side: l.side as "buy" | "sell",
+                ratio: (l.ratio as number) || 1,
+              }))
+              const roots = new Set(legs.map(l => optionUnderlying(l.symbol)))
+              if (roots.has(null)) return err("Every leg must be an OCC option contract symbol.")
+              if (roots.size > 1) return err("All legs must share the same underlying.")
+              underlying = [...roots][0] as string
+            } else {
+              return err("Provide either legs or a strategy preset.")
+            }
+
+            const priceType = (args.price_type as "debit" | "credit") || "debit"
+            const order = buildMultiLegOrder(legs, qty, args.limit_price as number | undefined, priceType)
+
+            const intent: OrderIntent = {
+              symbol: underlying,
+              side: priceType === "credit" ? "sell" : "buy",
+              assetClass: "us_option",
+              qty,
+              price: args.limit_price as number | undefined,
+              legs,
+            }
+            const rejection = await checkRisk(mode, client, intent)
+            if (rejection) return err(rejection)
+
+            const gate = await confirmGate(mode, client, "alpaca_place_multileg_option_order", order, intent, args.confirmation_token)
+            if (gate) return gate
+
+            const result = await client.placeOrder(order)
+            const journalOpts = { symbol: underlying, side: intent.side, linkIdea: false }
+            journalOrder(mode, "alpaca_place_multileg_option_order", args, result, journalOpts)
+            const mirrored = await mirrorOrder(mode, "alpaca_place_multileg_option_order", args, order, result, intent, journalOpts)
+
+            const lines = [
+              `Multi-Leg Options Order Placed [${mode.toUpperCase()}]`,
+              `${args.strategy ? `${(args.direction as string || "buy").toUpperCase()} ${args.strategy} ` : ""}${result.qty} x ${underlying}`,
+              ...legs.map(l => `  ${l.side.toUpperCase()} ${l.ratio} x ${l.symbol}`),
+              `Type: ${result.order_type} | TIF: ${result.time_in_force}`,
+              result.limit_price ? `Net Limit: $${formatMoney(Math.abs(parseFloat(result.limit_price)))} ${priceType}` : null,
+              `Status: ${result.status}`,
+              `Order ID: ${result.id}`,
+              mirrored,
             ].filter(Boolean)
 
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
@@ -1229,7 +4544,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             const symbol = (args.symbol as string).toUpperCase()
             await getClient(mode).exerciseOption(symbol)
             return ok(`Exercise request submitted for ${symbol} [${mode.toUpperCase()}]`)
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
@@ -1274,6 +4589,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
 
             if (keys.length === 0) return ok(`No option chain data for ${symbol}`)
 
+            const calendar = await getTradingCalendar(client).catch(() => null)
             const lines = [`Option Chain: ${symbol} (${keys.length} contracts)`, ``]
             for (const contractSymbol of keys.slice(0, 30)) {
               const snap = snaps[contractSymbol]
@@ -1288,8 +4604,9 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 greeksStr = ` | Δ${g.delta.toFixed(3)} Γ${g.gamma.toFixed(4)} Θ${g.theta.toFixed(3)} V${g.vega.toFixed(3)}`
               }
 
+              const expiration = optionExpiration(contractSymbol)
               lines.push(
-                `${contractSymbol}`,
+                `${contractSymbol}${expiration ? ` — exp ${formatExpiry(expiration, calendar)}` : ""}`,
                 `  Bid: ${bid} | Ask: ${ask} | Last: ${last} | IV: ${iv}${greeksStr}`,
                 ``
               )
@@ -1300,7 +4617,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             }
 
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
         },
       },
 
@@ -1352,7 +4669,18 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               )
             }
             return ok(lines.join("\n"))
-          } catch (e) { return err(e instanceof Error ? e.message : String(e)) }
+          } catch (e) { return err(e) }
+        },
+      },
+    ],
+
+    scheduled: [
+      {
+        name: "alpaca-price-alerts",
+        intervalMs: ALERT_CHECK_INTERVAL_MS,
+        handler: async () => {
+          try { await checkAlerts() }
+          catch (e) { ctx.log.error("Price alert check failed:", e) }
         },
       },
     ],
@@ -1360,5 +4688,6 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
 }
 
 export function deactivate(): void {
-  // Nothing to clean up
+  for (const stream of tradeStreams) stream.stop()
+  tradeStreams = []
 }
@@ -0,0 +1,263 @@
+/**
+ * Technical indicators
+ * Moving averages, oscillators and bands over OHLCV bars. Every series is
+ * aligned with its input: positions without enough history yet are NaN.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+/** The bar fields indicators read — satisfied by Alpaca's bar objects */
+export interface OHLCV {
+  t: string
+  o: number
+  h: number
+  l: number
+  c: number
+  v: number
+}
+
+export interface MacdSeries {
+  macd: number[]
+  signal: number[]
+  histogram: number[]
+}
+
+export interface BollingerSeries {
+  middle: number[]
+  upper: number[]
+  lower: number[]
+}
+
+export interface StochasticSeries {
+  k: number[]
+  d: number[]
+}
+
+export interface IndicatorSignal {
+  indicator: string
+  /** bullish, bearish or neutral (informational) */
+  bias: "bullish" | "bearish" | "neutral"
+  message: string
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/** Last value of a series, NaN when it is empty */
+export function last(series: number[]): number {
+  return series.length ? series[series.length - 1] : NaN
+}
+
+/** Index of the first real (non-NaN) value, or -1 */
+function firstValid(series: number[]): number {
+  return series.findIndex(v => !Number.isNaN(v))
+}
+
+/**
+ * Bars needed before the indicators are trustworthy. Exponential averages
+ * (EMA, MACD, RSI, ATR) carry their seed forever, so they get roughly three
+ * times their period to converge.
+ */
+export function warmupBars(opts: { smaPeriods: number[]; emaPeriods: number[]; lookback: number }): number {
+  const longestSma = Math.max(0, ...opts.smaPeriods)
+  const longestEma = Math.max(26 + 9, 14, ...opts.emaPeriods)
+  return Math.max(longestSma, longestEma * 3) + opts.lookback
+}
+
+// ── Averages ────────────────────────────────────────────────
+
+export function sma(values: number[], period: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN)
+  let sum = 0
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]
+    if (i >= period) sum -= values[i - period]
+    if (i >= period - 1) out[i] = sum / period
+  }
+  return out
+}
+
+/** Exponential moving average seeded with the SMA of the first `period` values. NaN inputs are skipped over. */
+export function ema(values: number[], period: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN)
+  const start = firstValid(values)
+  if (start < 0 || values.length - start < period) return out
+  const k = 2 / (period + 1)
+  let prev = 0
+  for (let i = start; i < start + period; i++) prev += values[i]
+  prev /= period
+  out[start + period - 1] = prev
+  for (let i = start + period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k)
+    out[i] = prev
+  }
+  return out
+}
+
+/** Wilder's smoothing (an EMA with alpha 1/period), as used by RSI and ATR */
+function wilder(values: number[], period: number, start: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN)
+  if (values.length - start < period) return out
+  let prev = 0
+  for (let i = start; i < start + period; i++) prev += values[i]
+  prev /= period
+  out[start + period - 1] = prev
+  for (let i = start + period; i < values.length; i++) {
+    prev = (prev * (period - 1) + values[i]) / period
+    out[i] = prev
+  }
+  return out
+}
+
+// ── Oscillators ─────────────────────────────────────────────
+
+export function rsi(closes: number[], period = 14): number[] {
+  const gains: number[] = [0]
+  const losses: number[] = [0]
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1]
+    gains.push(Math.max(change, 0))
+    losses.push(Math.max(-change, 0))
+  }
+  const avgGain = wilder(gains, period, 1)
+  const avgLoss = wilder(losses, period, 1)
+  return avgGain.map((g, i) => {
+    if (Number.isNaN(g)) return NaN
+    if (avgLoss[i] === 0) return g === 0 ? 50 : 100
+    return 100 - 100 / (1 + g / avgLoss[i])
+  })
+}
+
+export function macd(closes: number[], fast = 12, slow = 26, signalPeriod = 9): MacdSeries {
+  const fastEma = ema(closes, fast)
+  const slowEma = ema(closes, slow)
+  const line = fastEma.map((f, i) => f - slowEma[i])
+  const signal = ema(line, signalPeriod)
+  return { macd: line, signal, histogram: line.map((m, i) => m - signal[i]) }
+}
+
+/** Fast %K over `kPeriod` bars, smoothed into %D with a `dPeriod` SMA */
+export function stochastic(bars: OHLCV[], kPeriod = 14, dPeriod = 3): StochasticSeries {
+  const k: number[] = bars.map((bar, i) => {
+    if (i < kPeriod - 1) return NaN
+    const window = bars.slice(i - kPeriod + 1, i + 1)
+    const high = Math.max(...window.map(b => b.h))
+    const low = Math.min(...window.map(b => b.l))
+    return high === low ? 50 : ((bar.c - low) / (high - low)) * 100
+  })
+  const d: number[] = new Array(bars.length).fill(NaN)
+  for (let i = kPeriod - 1 + dPeriod - 1; i < bars.length; i++) {
+    d[i] = k.slice(i - dPeriod + 1, i + 1).reduce((a, b) => a + b, 0) / dPeriod
+  }
+  return { k, d }
+}
+
+// ── Volatility & volume ─────────────────────────────────────
+
+/** Bollinger Bands: SMA ± `mult` population standard deviations */
+export function bollinger(closes: number[], period = 20, mult = 2): BollingerSeries {
+  const middle = sma(closes, period)
+  const upper: number[] = new Array(closes.length).fill(NaN)
+  const lower: number[] = new Array(closes.length).fill(NaN)
+  for (let i = period - 1; i < closes.length; i++) {
+    const window = closes.slice(i - period + 1, i + 1)
+    const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - middle[i]) ** 2, 0) / period)
+    upper[i] = middle[i] + mult * sd
+    lower[i] = middle[i] - mult * sd
+  }
+  return { middle, upper, lower }
+}
+
+/** Average true range with Wilder's smoothing */
+export function atr(bars: OHLCV[], period = 14): number[] {
+  const tr = bars.map((bar, i) => {
+    if (i === 0) return bar.h - bar.l
+    const prevClose = bars[i - 1].c
+    return Math.max(bar.h - bar.l, Math.abs(bar.h - prevClose), Math.abs(bar.l - prevClose))
+  })
+  return wilder(tr, period, 0)
+}
+
+/**
+ * Volume-weighted average of typical price. With `resetDaily` it restarts at
+ * each new UTC date, the usual intraday session VWAP; otherwise it runs over
+ * the whole series.
+ */
+export function vwap(bars: OHLCV[], resetDaily = false): number[] {
+  let pv = 0
+  let vol = 0
+  let day = ""
+  return bars.map(bar => {
+    const barDay = bar.t.slice(0, 10)
+    if (resetDaily && barDay !== day) {
+      pv = 0
+      vol = 0
+    }
+    day = barDay
+    pv += ((bar.h + bar.l + bar.c) / 3) * bar.v
+    vol += bar.v
+    return vol ? pv / vol : NaN
+  })
+}
+
+// ── Signals ─────────────────────────────────────────────────
+
+/** Bars ago (0 = latest) that `a` last crossed `b`, with the direction, looking back at most `within` bars */
+export function lastCross(a: number[], b: number[], within: number): { barsAgo: number; direction: "up" | "down" } | null {
+  const n = Math.min(a.length, b.length)
+  for (let i = n - 1; i >= Math.max(1, n - within); i--) {
+    const prev = a[i - 1] - b[i - 1]
+    const curr = a[i] - b[i]
+    if (Number.isNaN(prev) || Number.isNaN(curr)) return null
+    if (prev <= 0 && curr > 0) return { barsAgo: n - 1 - i, direction: "up" }
+    if (prev >= 0 && curr < 0) return { barsAgo: n - 1 - i, direction: "down" }
+  }
+  return null
+}
+
+/**
+ * Plain-language readings of the latest bar: moving-average crosses,
+ * RSI and stochastic extremes, MACD crosses and closes outside the bands.
+ */
+export function detectSignals(bars: OHLCV[], within = 5): IndicatorSignal[] {
+  const closes = bars.map(b => b.c)
+  const price = last(closes)
+  const signals: IndicatorSignal[] = []
+  const ago = (n: number) => n === 0 ? "on the latest bar" : `${n} bar${n === 1 ? "" : "s"} ago`
+
+  const sma50 = sma(closes, 50)
+  const sma200 = sma(closes, 200)
+  const cross = lastCross(sma50, sma200, within)
+  if (cross) {
+    signals.push(cross.direction === "up"
+      ? { indicator: "SMA 50/200", bias: "bullish", message: `Golden cross ${ago(cross.barsAgo)} (SMA50 crossed above SMA200)` }
+      : { indicator: "SMA 50/200", bias: "bearish", message: `Death cross ${ago(cross.barsAgo)} (SMA50 crossed below SMA200)` })
+  } else if (!Number.isNaN(last(sma200))) {
+    const above = last(sma50) > last(sma200)
+    signals.push({ indicator: "SMA 50/200", bias: above ? "bullish" : "bearish", message: `SMA50 is ${above ? "above" : "below"} SMA200` })
+  }
+
+  const r = last(rsi(closes))
+  if (r >= 70) signals.push({ indicator: "RSI 14", bias: "bearish", message: `RSI ${r.toFixed(1)} — overbought (≥70)` })
+  else if (r <= 30) signals.push({ indicator: "RSI 14", bias: "bullish", message: `RSI ${r.toFixed(1)} — oversold (≤30)` })
+
+  const m = macd(closes)
+  const macdCross = lastCross(m.macd, m.signal, within)
+  if (macdCross) {
+    signals.push({
+      indicator: "MACD",
+      bias: macdCross.direction === "up" ? "bullish" : "bearish",
+      message: `MACD crossed ${macdCross.direction === "up" ? "above" : "below"} its signal line ${ago(macdCross.barsAgo)}`,
+    })
+  }
+
+  const bands = bollinger(closes)
+  if (price > last(bands.upper)) signals.push({ indicator: "Bollinger", bias: "bearish", message: "Close above the upper band" })
+  else if (price < last(bands.lower)) signals.push({ indicator: "Bollinger", bias: "bullish", message: "Close below the lower band" })
+
+  const stoch = stochastic(bars)
+  const k = last(stoch.k)
+  if (k >= 80) signals.push({ indicator: "Stochastic", bias: "bearish", message: `%K ${k.toFixed(1)} — overbought (≥80)` })
+  else if (k <= 20) signals.push({ indicator: "Stochastic", bias: "bullish", message: `%K ${k.toFixed(1)} — oversold (≤20)` })
+
+  return signals
+}
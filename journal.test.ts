@@ -0,0 +1,69 @@
+import { Database } from "bun:sqlite"
+import { beforeEach, describe, expect, test } from "bun:test"
+import { JournalStore, type JournalEntry } from "./journal"
+
+let store: JournalStore
+
+beforeEach(() => {
+  store = new JournalStore(new Database(":memory:"))
+})
+
+function record(orderId: string, side: "buy" | "sell", qty: string): JournalEntry {
+  return store.record({
+    mode: "paper",
+    tool: "alpaca_place_order",
+    symbol: "AAPL",
+    side,
+    qty,
+    order_id: orderId,
+    status: "new",
+    multiplier: 1,
+    rationale: "breakout",
+    tags: ",swing,",
+    args: "{}",
+  })
+}
+
+function fill(id: string, qty: string, price: string, at: string) {
+  store.applyOrderUpdate({ id, status: "filled", filled_qty: qty, filled_avg_price: price, filled_at: at })
+}
+
+describe("JournalStore", () => {
+  test("closes an idea when fills net back to flat", () => {
+    record("entry", "buy", "10")
+    record("exit", "sell", "10")
+    fill("entry", "10", "100", "2026-01-05T15:00:00Z")
+    expect(store.ideas({})[0].closed_at).toBeNull()
+
+    fill("exit", "10", "110", "2026-01-06T15:00:00Z")
+    const [idea] = store.ideas({})
+    expect(idea.closed_at).toBe("2026-01-06T15:00:00Z")
+    expect(idea.realized_pl).toBe(100)
+  })
+
+  test("settles a bracket idea through its child legs", () => {
+    const parent = record("parent", "buy", "10")
+    const legs = store.recordLegs(parent, [
+      { order_id: "take-profit", side: "sell", qty: "10", status: "held" },
+      { order_id: "stop-loss", side: "sell", qty: "10", status: "held" },
+    ])
+    expect(legs.map(l => l.idea_id)).toEqual([parent.idea_id, parent.idea_id])
+    expect(legs[0].tags).toBe(",swing,")
+    expect(JSON.parse(legs[0].args)).toEqual({ leg_of: "parent" })
+
+    fill("parent", "10", "100", "2026-01-05T15:00:00Z")
+    fill("take-profit", "10", "112.5", "2026-01-07T15:00:00Z")
+    store.applyOrderUpdate({ id: "stop-loss", status: "canceled", filled_qty: "0", filled_avg_price: null, filled_at: null })
+
+    const [idea] = store.ideas({})
+    expect(idea.closed_at).toBe("2026-01-07T15:00:00Z")
+    expect(idea.realized_pl).toBe(125)
+    expect(store.pending("paper")).toHaveLength(0)
+  })
+
+  test("ignores updates for orders it never recorded", () => {
+    record("entry", "buy", "10")
+    fill("unknown", "10", "100", "2026-01-05T15:00:00Z")
+    expect(store.query({})[0].filled_qty).toBe(0)
+  })
+})
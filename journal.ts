@@ -0,0 +1,249 @@
+/**
+ * Trade journal
+ * Every order the plugin submits, with the reasoning behind it and its fills.
+ * Entries on the same symbol are grouped into ideas: an idea opens with the
+ * first fill and closes when later fills bring the position back to flat,
+ * at which point its realized P&L is recorded.
+ */
+
+import type { SqlDatabase, SqlValue } from "./db"
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface JournalEntry {
+  id: number
+  created_at: string
+  mode: "paper" | "live"
+  tool: string
+  symbol: string
+  side: string
+  qty: string | null
+  order_id: string
+  status: string
+  filled_qty: number
+  filled_avg_price: number | null
+  filled_at: string | null
+  multiplier: number
+  rationale: string | null
+  /** Stored as ",tag1,tag2," so a tag can be matched with LIKE */
+  tags: string
+  args: string
+  idea_id: number | null
+}
+
+export interface JournalIdea {
+  id: number
+  mode: "paper" | "live"
+  symbol: string
+  opened_at: string
+  closed_at: string | null
+  realized_pl: number | null
+}
+
+export interface JournalOrderUpdate {
+  id: string
+  status: string
+  filled_qty: string
+  filled_avg_price: string | null
+  filled_at: string | null
+}
+
+/** A child order of a bracket, OCO or OTO order */
+export interface JournalLeg {
+  order_id: string
+  side: string
+  qty: string | null
+  status: string
+}
+
+export interface JournalFilter {
+  mode?: "paper" | "live"
+  symbol?: string
+  tag?: string
+  /** Inclusive ISO date (YYYY-MM-DD) bounds on created_at */
+  start?: string
+  end?: string
+  limit?: number
+}
+
+/** Order statuses after which fills can no longer change */
+const FINAL_STATUSES = ["filled", "canceled", "expired", "rejected", "replaced"]
+
+export function formatTags(tags: string[] | undefined): string {
+  const clean = (tags || []).map(t => t.trim().toLowerCase()).filter(Boolean)
+  return clean.length ? `,${clean.join(",")},` : ""
+}
+
+export function parseTags(stored: string): string[] {
+  return stored.split(",").filter(Boolean)
+}
+
+// ── Store ───────────────────────────────────────────────────
+
+export class JournalStore {
+  private db: SqlDatabase
+
+  constructor(db: SqlDatabase) {
+    this.db = db
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alpaca_journal_ideas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        mode TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        opened_at TEXT NOT NULL,
+        closed_at TEXT,
+        realized_pl REAL
+      )
+    `)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS alpaca_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        side TEXT NOT NULL,
+        qty TEXT,
+        order_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        filled_qty REAL NOT NULL DEFAULT 0,
+        filled_avg_price REAL,
+        filled_at TEXT,
+        multiplier REAL NOT NULL DEFAULT 1,
+        rationale TEXT,
+        tags TEXT NOT NULL DEFAULT '',
+        args TEXT NOT NULL,
+        idea_id INTEGER REFERENCES alpaca_journal_ideas(id)
+      )
+    `)
+    this.db.exec("CREATE INDEX IF NOT EXISTS alpaca_journal_order_id ON alpaca_journal(order_id)")
+  }
+
+  /**
+   * Records a submitted order. Pass linkIdea=false for orders that cannot be
+   * matched into round trips by symbol (multi-leg options).
+   */
+  record(entry: Omit<JournalEntry, "id" | "created_at" | "filled_qty" | "filled_avg_price" | "filled_at" | "idea_id">, linkIdea = true): JournalEntry {
+    const now = new Date().toISOString()
+    let ideaId: number | null = null
+    if (linkIdea) {
+      const open = this.db.query(`
+        SELECT id FROM alpaca_journal_ideas
+        WHERE mode = ? AND REPLACE(symbol, '/', '') = REPLACE(?, '/', '') AND closed_at IS NULL
+        ORDER BY id DESC LIMIT 1
+      `).get(entry.mode, entry.symbol) as { id: number } | null
+      ideaId = open?.id ?? (this.db.query(`
+        INSERT INTO alpaca_journal_ideas (mode, symbol, opened_at) VALUES (?, ?, ?) RETURNING id
+      `).get(entry.mode, entry.symbol, now) as { id: number }).id
+    }
+
+    return this.db.query(`
+      INSERT INTO alpaca_journal
+        (created_at, mode, tool, symbol, side, qty, order_id, status, multiplier, rationale, tags, args, idea_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `).get(
+      now, entry.mode, entry.tool, entry.symbol, entry.side, entry.qty, entry.order_id, entry.status,
+      entry.multiplier, entry.rationale, entry.tags, entry.args, ideaId,
+    ) as JournalEntry
+  }
+
+  /**
+   * Records the child legs of a bracket, OCO or OTO order under the parent's
+   * idea. Legs fill under their own order IDs, so the exits only reach the
+   * journal — and the idea only settles — if each leg has an entry.
+   */
+  recordLegs(parent: JournalEntry, legs: JournalLeg[]): JournalEntry[] {
+    const now = new Date().toISOString()
+    return legs.map(leg => this.db.query(`
+      INSERT INTO alpaca_journal
+        (created_at, mode, tool, symbol, side, qty, order_id, status, multiplier, rationale, tags, args, idea_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?, ?)
+      RETURNING *
+    `).get(
+      now, parent.mode, parent.tool, parent.symbol, leg.side, leg.qty, leg.order_id, leg.status,
+      parent.multiplier, parent.tags, JSON.stringify({ leg_of: parent.order_id }), parent.idea_id,
+    ) as JournalEntry)
+  }
+
+  /** Points the entry for a replaced order at its replacement. */
+  replaceOrderId(oldId: string, newId: string, args: string): boolean {
+    const existing = this.db.query("SELECT id FROM alpaca_journal WHERE order_id = ?").get(oldId)
+    if (!existing) return false
+    this.db.query("UPDATE alpaca_journal SET order_id = ?, status = 'new', args = ? WHERE order_id = ?").run(newId, args, oldId)
+    return true
+  }
+
+  /** Applies the latest order state (from the stream or a refresh) and settles the idea it belongs to. */
+  applyOrderUpdate(order: JournalOrderUpdate): void {
+    const entry = this.db.query("SELECT * FROM alpaca_journal WHERE order_id = ?").get(order.id) as JournalEntry | null
+    if (!entry) return
+    this.db.query(`
+      UPDATE alpaca_journal SET status = ?, filled_qty = ?, filled_avg_price = ?, filled_at = ? WHERE id = ?
+    `).run(
+      order.status,
+      parseFloat(order.filled_qty || "0"),
+      order.filled_avg_price ? parseFloat(order.filled_avg_price) : null,
+      order.filled_at,
+      entry.id,
+    )
+    if (entry.idea_id) this.settleIdea(entry.idea_id)
+  }
+
+  /** Closes the idea once its fills net back to flat, recording realized P&L. */
+  private settleIdea(ideaId: number): void {
+    const entries = this.db.query("SELECT * FROM alpaca_journal WHERE idea_id = ?").all(ideaId) as JournalEntry[]
+    let net = 0
+    let cash = 0
+    let lastFill: string | null = null
+    for (const e of entries) {
+      if (!e.filled_qty || e.filled_avg_price === null) continue
+      const sign = e.side === "buy" ? 1 : -1
+      net += sign * e.filled_qty
+      cash -= sign * e.filled_qty * e.filled_avg_price * e.multiplier
+      if (e.filled_at && (!lastFill || e.filled_at > lastFill)) lastFill = e.filled_at
+    }
+    // Fractional fills can leave float dust behind
+    if (lastFill && Math.abs(net) < 1e-9) {
+      this.db.query("UPDATE alpaca_journal_ideas SET closed_at = ?, realized_pl = ? WHERE id = ? AND closed_at IS NULL")
+        .run(lastFill, Math.round(cash * 100) / 100, ideaId)
+    }
+  }
+
+  /** Entries whose fills may still change, oldest first. */
+  pending(mode: "paper" | "live", limit = 25): JournalEntry[] {
+    const placeholders = FINAL_STATUSES.map(() => "?").join(", ")
+    return this.db.query(`
+      SELECT * FROM alpaca_journal WHERE mode = ? AND status NOT IN (${placeholders}) ORDER BY id LIMIT ?
+    `).all(mode, ...FINAL_STATUSES, limit) as JournalEntry[]
+  }
+
+  query(filter: JournalFilter): JournalEntry[] {
+    const { where, params } = this.whereClause(filter, "")
+    return this.db.query(`SELECT * FROM alpaca_journal ${where} ORDER BY id DESC LIMIT ?`)
+      .all(...params, filter.limit ?? 20) as JournalEntry[]
+  }
+
+  /** Ideas with at least one entry matching the filter. */
+  ideas(filter: JournalFilter): JournalIdea[] {
+    const { where, params } = this.whereClause(filter, "j.")
+    return this.db.query(`
+      SELECT DISTINCT i.* FROM alpaca_journal_ideas i
+      JOIN alpaca_journal j ON j.idea_id = i.id
+      ${where}
+      ORDER BY i.id DESC
+    `).all(...params) as JournalIdea[]
+  }
+
+  private whereClause(filter: JournalFilter, prefix: string): { where: string; params: SqlValue[] } {
+    const clauses: string[] = []
+    const params: SqlValue[] = []
+    if (filter.mode) { clauses.push(`${prefix}mode = ?`); params.push(filter.mode) }
+    if (filter.symbol) { clauses.push(`REPLACE(${prefix}symbol, '/', '') = REPLACE(?, '/', '')`); params.push(filter.symbol) }
+    if (filter.tag) { clauses.push(`${prefix}tags LIKE ?`); params.push(`%,${filter.tag.toLowerCase()},%`) }
+    if (filter.start) { clauses.push(`${prefix}created_at >= ?`); params.push(filter.start) }
+    // The end date is inclusive: every timestamp on that day sorts before "<date>T99"
+    if (filter.end) { clauses.push(`${prefix}created_at < ?`); params.push(`${filter.end}T99`) }
+    return { where: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params }
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test"
+import { matchLots, realizedToCsv, summarizeByYear, type LotFill } from "./lots"
+
+function fill(orderId: string, day: string, side: LotFill["side"], qty: number, price: number, symbol = "AAPL", multiplier = 1): LotFill {
+  return { id: `fill-${orderId}`, orderId, time: `${day}T15:00:00Z`, symbol, side, qty, price, multiplier }
+}
+
+// Three buys of AAPL, then one sale of 15 shares at $130 on 5 Jan 2026
+const buysThenSale = [
+  fill("B1", "2025-01-02", "buy", 10, 100),
+  fill("B2", "2025-06-02", "buy", 10, 120),
+  fill("B3", "2025-09-01", "buy", 10, 110),
+  fill("S1", "2026-01-05", "sell", 15, 130),
+]
+
+const summary = (lots: ReturnType<typeof matchLots>["realized"]) =>
+  lots.map(l => [l.openOrderId, l.qty, l.costBasis, l.proceeds, l.gain, l.term])
+
+describe("matchLots", () => {
+  test("FIFO closes the oldest lots first", () => {
+    const { realized, open } = matchLots(buysThenSale, "fifo")
+
+    // B1: 10 × (130 − 100), held over a year; B2: 5 × (130 − 120)
+    expect(summary(realized)).toEqual([
+      ["B1", 10, 1000, 1300, 300, "long"],
+      ["B2", 5, 600, 650, 50, "short"],
+    ])
+    expect(open.map(l => [l.openOrderId, l.qty])).toEqual([["B2", 5], ["B3", 10]])
+  })
+
+  test("LIFO closes the newest lots first", () => {
+    const { realized, open } = matchLots(buysThenSale, "lifo")
+
+    expect(summary(realized)).toEqual([
+      ["B3", 10, 1100, 1300, 200, "short"],
+      ["B2", 5, 600, 650, 50, "short"],
+    ])
+    expect(open.map(l => [l.openOrderId, l.qty])).toEqual([["B1", 10], ["B2", 5]])
+  })
+
+  test("specific identification takes the selected lots, then falls back to FIFO", () => {
+    const { realized, open } = matchLots(buysThenSale, "specific", { S1: ["B2"] })
+
+    expect(summary(realized)).toEqual([
+      ["B2", 10, 1200, 1300, 100, "short"],
+      ["B1", 5, 500, 650, 150, "long"],
+    ])
+    expect(open.map(l => [l.openOrderId, l.qty])).toEqual([["B1", 5], ["B3", 10]])
+  })
+
+  test("is long-term only when held more than one year", () => {
+    const onAnniversary = matchLots([fill("B", "2025-03-03", "buy", 1, 10), fill("S", "2026-03-03", "sell", 1, 12)], "fifo")
+    const dayAfter = matchLots([fill("B", "2025-03-03", "buy", 1, 10), fill("S", "2026-03-04", "sell", 1, 12)], "fifo")
+
+    expect(onAnniversary.realized[0].term).toBe("short")
+    expect(dayAfter.realized[0].term).toBe("long")
+  })
+
+  test("closes short lots on a buy and opens a long lot with what is left", () => {
+    const { realized, open } = matchLots([
+      fill("SS", "2026-02-02", "sell_short", 10, 50),
+      fill("B", "2026-02-10", "buy", 15, 40),
+    ], "fifo")
+
+    // Sold for 500 and bought back for 400; short sales are always short-term
+    expect(realized).toEqual([expect.objectContaining({ direction: "short", qty: 10, costBasis: 400, proceeds: 500, gain: 100, term: "short" })])
+    expect(open).toEqual([expect.objectContaining({ qty: 5, price: 40, openOrderId: "B" })])
+  })
+
+  test("scales option contracts by the multiplier", () => {
+    const contract = "AAPL260116C00200000"
+    const { realized } = matchLots([
+      fill("B", "2026-01-02", "buy", 2, 2.5, contract, 100),
+      fill("S", "2026-01-09", "sell", 2, 3.1, contract, 100),
+    ], "fifo")
+
+    expect(realized[0]).toMatchObject({ costBasis: 500, proceeds: 620, gain: 120 })
+  })
+
+  test("replays fills in time order whatever order they arrive in", () => {
+    const { realized } = matchLots([...buysThenSale].reverse(), "fifo")
+    expect(realized.map(l => l.openOrderId)).toEqual(["B1", "B2"])
+  })
+})
+
+describe("wash sales", () => {
+  const lossSale = [fill("A", "2026-03-02", "buy", 10, 100), fill("S", "2026-03-10", "sell", 10, 90)]
+
+  test("flags a loss with a buy back within 30 days after the sale", () => {
+    const { realized } = matchLots([...lossSale, fill("C", "2026-03-25", "buy", 10, 92)], "fifo")
+    expect(realized[0]).toMatchObject({ gain: -100, washSale: true })
+  })
+
+  test("flags a loss with a buy within 30 days before the sale", () => {
+    // D is bought on 1 Mar and still held; A's lot is sold at a loss 9 days later
+    const { realized } = matchLots([fill("D", "2026-03-01", "buy", 5, 95), ...lossSale], "specific", { S: ["A"] })
+    expect(realized[0]).toMatchObject({ openOrderId: "A", washSale: true })
+  })
+
+  test("ignores a buy more than 30 days away, and gains", () => {
+    expect(matchLots([...lossSale, fill("C", "2026-04-10", "buy", 10, 92)], "fifo").realized[0].washSale).toBe(false)
+
+    const gain = matchLots([fill("A", "2026-03-02", "buy", 10, 100), fill("S", "2026-03-10", "sell", 10, 110), fill("C", "2026-03-12", "buy", 10, 105)], "fifo")
+    expect(gain.realized[0].washSale).toBe(false)
+  })
+})
+
+describe("reports", () => {
+  test("summarizeByYear splits gains by term and totals wash-sale losses", () => {
+    const { realized } = matchLots([
+      ...buysThenSale,
+      fill("A", "2026-03-02", "buy", 10, 100),
+      fill("S2", "2026-03-10", "sell", 10, 90),
+      fill("C", "2026-03-25", "buy", 10, 92),
+    ], "fifo")
+
+    // FIFO sells what is left of B2 and half of B3 before A: 5 × (90 − 120) and 5 × (90 − 110), both with C bought back 15 days later
+    expect(summarizeByYear(realized)).toEqual([
+      { year: 2026, shortTerm: 50 - 150 - 100, longTerm: 300, total: 100, washSaleCount: 2, washSaleLoss: -250 },
+    ])
+  })
+
+  test("realizedToCsv writes one row per closed lot", () => {
+    const csv = realizedToCsv(matchLots(buysThenSale, "fifo").realized).split("\n")
+
+    expect(csv[0]).toBe("symbol,quantity,direction,date_acquired,date_sold,proceeds,cost_basis,gain_loss,term,wash_sale")
+    expect(csv.slice(1)).toEqual([
+      "AAPL,10,long,2025-01-02,2026-01-05,1300.00,1000.00,300.00,long,",
+      "AAPL,5,long,2025-06-02,2026-01-05,650.00,600.00,50.00,short,",
+    ])
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Tax lots
+ * Rebuilds lots from fill activities and matches closing fills against them
+ * (FIFO, LIFO or specific lots), producing realized gains split by holding
+ * period with wash sales flagged.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface LotFill {
+  id: string
+  orderId: string
+  time: string
+  symbol: string
+  side: "buy" | "sell" | "sell_short"
+  qty: number
+  price: number
+  /** 100 for option contracts, 1 otherwise */
+  multiplier: number
+}
+
+export type LotMethod = "fifo" | "lifo" | "specific"
+
+export interface OpenLot {
+  symbol: string
+  /** Positive for long lots, negative for short lots */
+  qty: number
+  price: number
+  multiplier: number
+  openTime: string
+  openOrderId: string
+}
+
+export interface RealizedLot {
+  symbol: string
+  qty: number
+  direction: "long" | "short"
+  openTime: string
+  closeTime: string
+  openOrderId: string
+  closeOrderId: string
+  costBasis: number
+  proceeds: number
+  gain: number
+  term: "short" | "long"
+  /** Loss with a buy of the same symbol within 30 days either side of the sale */
+  washSale: boolean
+}
+
+export interface LotReport {
+  realized: RealizedLot[]
+  open: OpenLot[]
+}
+
+export interface YearSummary {
+  year: number
+  shortTerm: number
+  longTerm: number
+  total: number
+  washSaleCount: number
+  washSaleLoss: number
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const DAY_MS = 86400000
+const EPSILON = 1e-9
+
+/** Long-term means held more than one year: acquired date plus one calendar year, then at least a day more. */
+function isLongTerm(openTime: string, closeTime: string): boolean {
+  const anniversary = new Date(openTime)
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1)
+  return new Date(closeTime).getTime() > anniversary.getTime()
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+// ── Matching ────────────────────────────────────────────────
+
+/**
+ * Replays fills in time order. Buys close short lots before opening long ones;
+ * sells close long lots before opening short ones. `selection` maps a closing
+ * order ID to the opening order IDs to consume first (specific identification);
+ * anything left over falls back to FIFO.
+ */
+export function matchLots(fills: LotFill[], method: LotMethod, selection: Record<string, string[]> = {}): LotReport {
+  const sorted = [...fills].sort((a, b) => a.time.localeCompare(b.time))
+  const books = new Map<string, OpenLot[]>()
+  const realized: RealizedLot[] = []
+
+  for (const fill of sorted) {
+    const lots = books.get(fill.symbol) ?? []
+    books.set(fill.symbol, lots)
+    const sign = fill.side === "buy" ? 1 : -1
+    let remaining = fill.qty
+
+    // Lots on the opposite side are the ones this fill closes
+    const closable = () => lots.filter(l => Math.sign(l.qty) === -sign)
+    const pick = (): OpenLot | undefined => {
+      const candidates = closable()
+      if (candidates.length === 0) return undefined
+      const preferred = method === "specific" ? selection[fill.orderId] ?? [] : []
+      for (const orderId of preferred) {
+        const lot = candidates.find(l => l.openOrderId === orderId)
+        if (lot) return lot
+      }
+      return method === "lifo" ? candidates[candidates.length - 1] : candidates[0]
+    }
+
+    for (let lot = pick(); lot && remaining > EPSILON; lot = pick()) {
+      const qty = Math.min(remaining, Math.abs(lot.qty))
+      const long = lot.qty > 0
+      const openValue = qty * lot.price * lot.multiplier
+      const closeValue = qty * fill.price * fill.multiplier
+      realized.push({
+        symbol: fill.symbol,
+        qty,
+        direction: long ? "long" : "short",
+        openTime: lot.openTime,
+        closeTime: fill.time,
+        openOrderId: lot.openOrderId,
+        closeOrderId: fill.orderId,
+        costBasis: round(long ? openValue : closeValue),
+        proceeds: round(long ? closeValue : openValue),
+        gain: round(long ? closeValue - openValue : openValue - closeValue),
+        // Short sales are always short-term
+        term: long && isLongTerm(lot.openTime, fill.time) ? "long" : "short",
+        washSale: false,
+      })
+      lot.qty -= Math.sign(lot.qty) * qty
+      remaining -= qty
+      if (Math.abs(lot.qty) < EPSILON) lots.splice(lots.indexOf(lot), 1)
+    }
+
+    if (remaining > EPSILON) {
+      lots.push({
+        symbol: fill.symbol,
+        qty: sign * remaining,
+        price: fill.price,
+        multiplier: fill.multiplier,
+        openTime: fill.time,
+        openOrderId: fill.orderId,
+      })
+    }
+  }
+
+  flagWashSales(realized, sorted)
+  return { realized, open: [...books.values()].flat() }
+}
+
+/** Flags losses with a replacement buy of the same symbol within 30 days before or after the sale. */
+function flagWashSales(realized: RealizedLot[], fills: LotFill[]): void {
+  for (const lot of realized) {
+    if (lot.gain >= 0) continue
+    const closeMs = new Date(lot.closeTime).getTime()
+    lot.washSale = fills.some(f =>
+      f.symbol === lot.symbol
+      && f.side === "buy"
+      && f.orderId !== lot.openOrderId
+      && f.orderId !== lot.closeOrderId
+      && Math.abs(new Date(f.time).getTime() - closeMs) <= 30 * DAY_MS
+    )
+  }
+}
+
+export function summarizeByYear(realized: RealizedLot[]): YearSummary[] {
+  const years = new Map<number, YearSummary>()
+  for (const lot of realized) {
+    const year = new Date(lot.closeTime).getUTCFullYear()
+    const s = years.get(year) ?? { year, shortTerm: 0, longTerm: 0, total: 0, washSaleCount: 0, washSaleLoss: 0 }
+    if (lot.term === "long") s.longTerm += lot.gain
+    else s.shortTerm += lot.gain
+    s.total += lot.gain
+    if (lot.washSale) {
+      s.washSaleCount++
+      s.washSaleLoss += lot.gain
+    }
+    years.set(year, s)
+  }
+  return [...years.values()]
+    .map(s => ({ ...s, shortTerm: round(s.shortTerm), longTerm: round(s.longTerm), total: round(s.total), washSaleLoss: round(s.washSaleLoss) }))
+    .sort((a, b) => a.year - b.year)
+}
+
+/** One row per closed lot, in the column order of Form 8949. */
+export function realizedToCsv(realized: RealizedLot[]): string {
+  const rows = [["symbol", "quantity", "direction", "date_acquired", "date_sold", "proceeds", "cost_basis", "gain_loss", "term", "wash_sale"]]
+  for (const lot of realized) {
+    rows.push([
+      lot.symbol,
+      String(Number(lot.qty.toFixed(9))),
+      lot.direction,
+      lot.openTime.slice(0, 10),
+      lot.closeTime.slice(0, 10),
+      lot.proceeds.toFixed(2),
+      lot.costBasis.toFixed(2),
+      lot.gain.toFixed(2),
+      lot.term,
+      lot.washSale ? "W" : "",
+    ])
+  }
+  return rows.map(r => r.join(",")).join("\n")
+}
@@ -0,0 +1,130 @@
+/**
+ * Account mirroring
+ * Copies orders from one account to the other at a scale factor and
+ * compares the two accounts' positions. Callers do the submitting and
+ * fetching; this module only sizes orders and measures drift.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export type MirrorDirection = "off" | "live_to_paper" | "paper_to_live"
+
+export interface MirrorHolding {
+  symbol: string
+  /** Signed; shorts are negative */
+  qty: number
+  price: number
+  assetClass: string
+}
+
+export type DriftStatus = "in_sync" | "drifted" | "missing" | "extra"
+
+export interface DriftRow {
+  symbol: string
+  sourceQty: number
+  targetQty: number
+  /** sourceQty × scale, rounded the way a mirrored order would be */
+  expectedQty: number
+  /** targetQty − expectedQty */
+  drift: number
+  /** drift × price */
+  driftValue: number
+  /** "missing": held in the source only; "extra": held in the target only */
+  status: DriftStatus
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const FRACTIONAL_STEP = 1e-9
+const MIRROR_PREFIX = "mirror-"
+
+export function parseMirrorDirection(raw: string | undefined | null): MirrorDirection {
+  const value = String(raw ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_")
+  return value === "live_to_paper" || value === "paper_to_live" ? value : "off"
+}
+
+/** The account orders on `mode` are copied to, or null when they are not mirrored */
+export function mirrorTarget(direction: MirrorDirection, mode: "paper" | "live"): "paper" | "live" | null {
+  if (direction === "live_to_paper" && mode === "live") return "paper"
+  if (direction === "paper_to_live" && mode === "paper") return "live"
+  return null
+}
+
+/** client_order_id of the copy of a source order, so the copy can be found again to cancel or replace it */
+export function mirrorClientOrderId(sourceOrderId: string): string {
+  return `${MIRROR_PREFIX}${sourceOrderId}`
+}
+
+export function isMirrorOrder(clientOrderId: string | null | undefined): boolean {
+  return !!clientOrderId?.startsWith(MIRROR_PREFIX)
+}
+
+/**
+ * Scales a quantity, rounding toward zero. Options and whole-share stock
+ * quantities stay whole; crypto and fractional stock quantities keep nine
+ * decimals. Whole-share stock orders stay whole so a mirrored order keeps
+ * the same time-in-force and order-type options as its source.
+ */
+export function scaleQty(qty: number, scale: number, wholeUnits: boolean): number {
+  const step = wholeUnits ? 1 : FRACTIONAL_STEP
+  const scaled = Math.trunc(qty * scale / step + 1e-6) * step
+  return Number(scaled.toFixed(9))
+}
+
+/** Whole units for options and for stock quantities that are whole in the source */
+export function isWholeUnits(assetClass: string, qty: number): boolean {
+  return assetClass === "us_option" || (assetClass !== "crypto" && Number.isInteger(qty))
+}
+
+/**
+ * The order body to submit to the mirror account: the source body with its
+ * qty or notional scaled. Prices, legs and time in force are kept. Returns
+ * null when the scaled size rounds to zero.
+ */
+export function scaleOrderBody(order: Record<string, unknown>, scale: number, assetClass: string): Record<string, unknown> | null {
+  const body = { ...order }
+  if (body.qty !== undefined) {
+    const qty = parseFloat(String(body.qty))
+    const scaled = scaleQty(qty, scale, isWholeUnits(assetClass, qty))
+    if (scaled <= 0) return null
+    body.qty = String(scaled)
+  } else if (body.notional !== undefined) {
+    const notional = Math.floor(parseFloat(String(body.notional)) * scale * 100) / 100
+    if (notional < 1) return null
+    body.notional = String(notional)
+  }
+  return body
+}
+
+// ── Reconciliation ──────────────────────────────────────────
+
+/**
+ * Compares positions symbol by symbol against what the target would hold if
+ * it had copied every source order at `scale`. Sorted by drift value,
+ * largest first, with in-sync symbols last.
+ */
+export function reconcilePositions(source: MirrorHolding[], target: MirrorHolding[], scale: number): DriftRow[] {
+  const bySymbol = (holdings: MirrorHolding[]) => new Map(holdings.map(h => [h.symbol.toUpperCase().replace("/", ""), h]))
+  const src = bySymbol(source)
+  const tgt = bySymbol(target)
+  const rows: DriftRow[] = []
+
+  for (const symbol of new Set([...src.keys(), ...tgt.keys()])) {
+    const s = src.get(symbol)
+    const t = tgt.get(symbol)
+    const sourceQty = s?.qty ?? 0
+    const targetQty = t?.qty ?? 0
+    const expectedQty = s ? Math.sign(sourceQty) * scaleQty(Math.abs(sourceQty), scale, isWholeUnits(s.assetClass, sourceQty)) : 0
+    const drift = Number((targetQty - expectedQty).toFixed(9))
+    const price = t?.price || s?.price || 0
+    const status: DriftStatus = Math.abs(drift) < 1e-6
+      ? "in_sync"
+      : !t ? "missing" : !s ? "extra" : "drifted"
+    rows.push({ symbol: s?.symbol ?? t!.symbol, sourceQty, targetQty, expectedQty, drift, driftValue: drift * price, status })
+  }
+
+  return rows.sort((a, b) =>
+    (a.status === "in_sync" ? 1 : 0) - (b.status === "in_sync" ? 1 : 0)
+    || Math.abs(b.driftValue) - Math.abs(a.driftValue)
+    || a.symbol.localeCompare(b.symbol))
+}
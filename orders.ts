@@ -0,0 +1,208 @@
+/**
+ * Order construction helpers
+ * Builds and validates the advanced order payloads sent to POST /v2/orders.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export type OrderClass = "simple" | "bracket" | "oco" | "oto"
+
+export interface OrderLegs {
+  /** Limit price of the take-profit leg */
+  takeProfit?: number
+  /** Trigger price of the stop-loss leg */
+  stopLoss?: number
+  /** Optional limit price turning the stop-loss leg into a stop-limit */
+  stopLossLimit?: number
+}
+
+// ── Order Classes ───────────────────────────────────────────
+
+/**
+ * The exit legs protect a long position for a buy bracket/OTO entry, or for a
+ * sell OCO (which is itself the exit of a long).
+ */
+function protectsLong(orderClass: OrderClass, side: "buy" | "sell"): boolean {
+  return orderClass === "oco" ? side === "sell" : side === "buy"
+}
+
+/**
+ * Checks that the legs supplied match the order class and sit on the correct
+ * side of the reference price (entry price, or the latest price for OCO).
+ * Returns an error message, or null when the order is valid.
+ */
+export function validateOrderLegs(
+  orderClass: OrderClass,
+  side: "buy" | "sell",
+  timeInForce: string,
+  reference: number,
+  legs: OrderLegs,
+): string | null {
+  const { takeProfit, stopLoss, stopLossLimit } = legs
+
+  if (orderClass === "simple") {
+    if (takeProfit || stopLoss || stopLossLimit) {
+      return "Take-profit and stop-loss prices need order_class bracket, oco or oto."
+    }
+    return null
+  }
+
+  if (timeInForce !== "day" && timeInForce !== "gtc") {
+    return `${orderClass} orders only support time_in_force day or gtc.`
+  }
+  if ((orderClass === "bracket" || orderClass === "oco") && (!takeProfit || !stopLoss)) {
+    return `${orderClass} orders need both take_profit_price and stop_loss_price.`
+  }
+  if (orderClass === "oto" && !takeProfit === !stopLoss) {
+    return "oto orders need exactly one of take_profit_price or stop_loss_price."
+  }
+  if (stopLossLimit && !stopLoss) {
+    return "stop_loss_limit_price requires stop_loss_price."
+  }
+
+  const long = protectsLong(orderClass, side)
+  const ref = reference.toFixed(2)
+  if (takeProfit && (long ? takeProfit <= reference : takeProfit >= reference)) {
+    return `Take-profit $${takeProfit} must be ${long ? "above" : "below"} the ${orderClass === "oco" ? "current" : "entry"} price $${ref}.`
+  }
+  if (stopLoss && (long ? stopLoss >= reference : stopLoss <= reference)) {
+    return `Stop-loss $${stopLoss} must be ${long ? "below" : "above"} the ${orderClass === "oco" ? "current" : "entry"} price $${ref}.`
+  }
+  if (stopLoss && stopLossLimit && (long ? stopLossLimit > stopLoss : stopLossLimit < stopLoss)) {
+    return `Stop-loss limit $${stopLossLimit} must be at or ${long ? "below" : "above"} the stop price $${stopLoss}.`
+  }
+  return null
+}
+
+/** The order_class, take_profit and stop_loss fields for an advanced order payload. */
+export function buildLegFields(orderClass: OrderClass, legs: OrderLegs): Record<string, unknown> {
+  if (orderClass === "simple") return {}
+  const fields: Record<string, unknown> = { order_class: orderClass }
+  if (legs.takeProfit) fields.take_profit = { limit_price: String(legs.takeProfit) }
+  if (legs.stopLoss) {
+    const stopLoss: Record<string, string> = { stop_price: String(legs.stopLoss) }
+    if (legs.stopLossLimit) stopLoss.limit_price = String(legs.stopLossLimit)
+    fields.stop_loss = stopLoss
+  }
+  return fields
+}
+
+// ── Multi-Leg Options ───────────────────────────────────────
+
+export type OptionStrategy = "vertical" | "straddle" | "strangle" | "iron_condor" | "calendar"
+
+/** A leg described by its contract terms, before it is resolved to an OCC symbol */
+export interface OptionLegSpec {
+  type: "call" | "put"
+  strike: number
+  expiration: string
+  side: "buy" | "sell"
+  ratio: number
+}
+
+export interface OptionStrategyParams {
+  /** Call or put, for verticals and calendars */
+  optionType?: "call" | "put"
+  strikes: number[]
+  expiration: string
+  /** Back-month expiration, for calendars */
+  farExpiration?: string
+  /** Buying the structure uses the legs as listed below; selling flips every side */
+  direction: "buy" | "sell"
+}
+
+/**
+ * Leg layouts when buying each structure:
+ *   vertical    buy strikes[0], sell strikes[1] (same type and expiry)
+ *   straddle    buy call and put at strikes[0]
+ *   strangle    buy put at strikes[0], buy call at strikes[1]
+ *   iron_condor buy put strikes[1] and call strikes[2], sell wings strikes[0] and strikes[3]
+ *   calendar    sell the near expiration, buy the far one at strikes[0]
+ * Selling an iron condor is the usual credit condor.
+ */
+export function buildStrategyLegs(strategy: OptionStrategy, params: OptionStrategyParams): OptionLegSpec[] {
+  const { optionType, strikes, expiration, farExpiration } = params
+  const need = (n: number) => {
+    if (strikes.length !== n) throw new Error(`${strategy} needs exactly ${n} strike${n === 1 ? "" : "s"}.`)
+  }
+  const ascending = () => {
+    if (strikes.some((k, i) => i > 0 && k <= strikes[i - 1])) {
+      throw new Error(`${strategy} strikes must be in ascending order.`)
+    }
+  }
+  const requireType = (): "call" | "put" => {
+    if (!optionType) throw new Error(`${strategy} needs option_type (call or put).`)
+    return optionType
+  }
+  const leg = (type: "call" | "put", strike: number, side: "buy" | "sell", exp = expiration): OptionLegSpec =>
+    ({ type, strike, expiration: exp, side, ratio: 1 })
+
+  let legs: OptionLegSpec[]
+  switch (strategy) {
+    case "vertical": {
+      need(2)
+      if (strikes[0] === strikes[1]) throw new Error("vertical strikes must differ.")
+      const type = requireType()
+      legs = [leg(type, strikes[0], "buy"), leg(type, strikes[1], "sell")]
+      break
+    }
+    case "straddle":
+      need(1)
+      legs = [leg("call", strikes[0], "buy"), leg("put", strikes[0], "buy")]
+      break
+    case "strangle":
+      need(2)
+      ascending()
+      legs = [leg("put", strikes[0], "buy"), leg("call", strikes[1], "buy")]
+      break
+    case "iron_condor":
+      need(4)
+      ascending()
+      legs = [
+        leg("put", strikes[0], "sell"),
+        leg("put", strikes[1], "buy"),
+        leg("call", strikes[2], "buy"),
+        leg("call", strikes[3], "sell"),
+      ]
+      break
+    case "calendar": {
+      need(1)
+      const type = requireType()
+      if (!farExpiration || farExpiration <= expiration) {
+        throw new Error("calendar needs far_expiration_date after expiration_date.")
+      }
+      legs = [leg(type, strikes[0], "sell"), leg(type, strikes[0], "buy", farExpiration)]
+      break
+    }
+    default:
+      throw new Error(`Unknown strategy: ${strategy}`)
+  }
+
+  if (params.direction === "sell") {
+    legs = legs.map(l => ({ ...l, side: l.side === "buy" ? "sell" : "buy" }))
+  }
+  return legs
+}
+
+/** Payload for an mleg order. Alpaca expresses a net debit as a positive limit and a net credit as a negative one. */
+export function buildMultiLegOrder(
+  legs: Array<{ symbol: string; side: "buy" | "sell"; ratio: number }>,
+  qty: number,
+  netPrice?: number,
+  priceType: "debit" | "credit" = "debit",
+): Record<string, unknown> {
+  if (legs.length < 2 || legs.length > 4) throw new Error("Multi-leg orders need 2 to 4 legs.")
+  const symbols = new Set(legs.map(l => l.symbol))
+  if (symbols.size !== legs.length) throw new Error("Each leg must use a different contract.")
+  if (legs.some(l => !Number.isInteger(l.ratio) || l.ratio < 1)) throw new Error("Leg ratios must be whole numbers of at least 1.")
+
+  const order: Record<string, unknown> = {
+    order_class: "mleg",
+    qty: String(qty),
+    type: netPrice ? "limit" : "market",
+    time_in_force: "day",
+    legs: legs.map(l => ({ symbol: l.symbol, side: l.side, ratio_qty: String(l.ratio) })),
+  }
+  if (netPrice) order.limit_price = String(priceType === "credit" ? -Math.abs(netPrice) : Math.abs(netPrice))
+  return order
+}
@@ -0,0 +1,163 @@
+/**
+ * Portfolio rebalancing
+ * Turns target weights and current holdings into the orders that bring the
+ * portfolio back to target: symbols are only traded once they drift past a
+ * threshold, quantities respect fractional support and minimum sizes, and
+ * part of equity can be held back as a cash buffer.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface RebalanceHolding {
+  symbol: string
+  /** Signed; shorts are negative */
+  qty: number
+  price: number
+}
+
+export interface RebalanceAsset {
+  fractionable: boolean
+  /** Smallest order quantity (crypto) */
+  minQty?: number
+  /** Quantity step (crypto); fractional stocks are rounded to 1e-6 shares */
+  qtyIncrement?: number
+}
+
+export interface RebalanceInput {
+  equity: number
+  holdings: RebalanceHolding[]
+  /** Target weights as fractions of investable equity, summing to at most 1 */
+  targets: Record<string, number>
+  /** Latest price per symbol, for targets not currently held */
+  prices: Record<string, number>
+  assets: Record<string, RebalanceAsset>
+  /** Minimum |current − target| weight before a symbol is traded, as a fraction (0.02 = 2 points) */
+  driftThreshold: number
+  /** Fraction of equity kept in cash and excluded from the targets */
+  cashBuffer: number
+  /** Orders worth less than this many dollars are skipped */
+  minOrderNotional: number
+  /** Sell holdings that have no target; otherwise they are left untouched */
+  sellUnlisted: boolean
+}
+
+export type RebalanceStatus = "trade" | "within_threshold" | "below_minimum" | "unlisted" | "no_price"
+
+export interface RebalanceRow {
+  symbol: string
+  currentValue: number
+  currentWeight: number
+  targetWeight: number
+  status: RebalanceStatus
+}
+
+export interface RebalanceTrade {
+  symbol: string
+  side: "buy" | "sell"
+  qty: number
+  /** qty × price at planning time */
+  value: number
+}
+
+export interface RebalancePlan {
+  investable: number
+  rows: RebalanceRow[]
+  /** Sells first, then buys, each largest first */
+  trades: RebalanceTrade[]
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const FRACTIONAL_STEP = 1e-6
+
+/** Rounds toward zero to the asset's tradable step */
+function roundQty(qty: number, asset: RebalanceAsset | undefined): number {
+  const step = asset?.qtyIncrement || (asset?.fractionable ? FRACTIONAL_STEP : 1)
+  const rounded = Math.trunc(qty / step + 1e-9) * step
+  return Number(rounded.toFixed(9))
+}
+
+/** Converts weights given in percent to fractions; throws when they add up to more than 100%. */
+export function normalizeTargets(percentages: Record<string, number>): Record<string, number> {
+  const targets: Record<string, number> = {}
+  let total = 0
+  for (const [symbol, pct] of Object.entries(percentages)) {
+    if (!(pct >= 0)) throw new Error(`Target weight for ${symbol} must be a non-negative percentage.`)
+    targets[symbol.toUpperCase()] = pct / 100
+    total += pct
+  }
+  if (total > 100 + 1e-6) throw new Error(`Target weights add up to ${total.toFixed(2)}%; they must total 100% or less.`)
+  return targets
+}
+
+export function equalWeights(symbols: string[]): Record<string, number> {
+  const targets: Record<string, number> = {}
+  for (const symbol of symbols) targets[symbol.toUpperCase()] = 1 / symbols.length
+  return targets
+}
+
+// ── Planning ────────────────────────────────────────────────
+
+export function planRebalance(input: RebalanceInput): RebalancePlan {
+  const investable = input.equity * (1 - input.cashBuffer)
+  const held = new Map(input.holdings.map(h => [h.symbol, h]))
+  const symbols = [...new Set([...Object.keys(input.targets), ...held.keys()])].sort()
+  const rows: RebalanceRow[] = []
+  const trades: RebalanceTrade[] = []
+
+  for (const symbol of symbols) {
+    const holding = held.get(symbol)
+    const price = holding?.price || input.prices[symbol] || 0
+    const currentValue = holding ? holding.qty * price : 0
+    const currentWeight = investable > 0 ? currentValue / investable : 0
+    const listed = symbol in input.targets
+    const targetWeight = input.targets[symbol] ?? 0
+    const row: RebalanceRow = { symbol, currentValue, currentWeight, targetWeight, status: "trade" }
+    rows.push(row)
+
+    if (!listed && !input.sellUnlisted) { row.status = "unlisted"; continue }
+    if (!price) { row.status = "no_price"; continue }
+    // Exiting a position entirely is always worth doing; otherwise respect the band
+    const exiting = targetWeight === 0 && currentValue !== 0
+    if (!exiting && Math.abs(currentWeight - targetWeight) < input.driftThreshold) { row.status = "within_threshold"; continue }
+
+    const asset = input.assets[symbol]
+    let qty: number
+    if (exiting) {
+      qty = Math.abs(holding!.qty)
+    } else {
+      qty = roundQty(Math.abs(targetWeight * investable - currentValue) / price, asset)
+    }
+    const value = qty * price
+    if (qty <= 0 || value < input.minOrderNotional || (asset?.minQty && qty < asset.minQty)) {
+      row.status = "below_minimum"
+      continue
+    }
+    const side = exiting
+      ? (holding!.qty > 0 ? "sell" : "buy")
+      : (targetWeight * investable > currentValue ? "buy" : "sell")
+    trades.push({ symbol, side, qty, value })
+  }
+
+  trades.sort((a, b) => (a.side === b.side ? b.value - a.value : a.side === "sell" ? -1 : 1))
+  return { investable, rows, trades }
+}
+
+/**
+ * Shrinks buys proportionally so they fit in the cash available, re-rounding
+ * each to its tradable step. Buys that fall below the minimum are dropped.
+ */
+export function fitBuys(trades: RebalanceTrade[], available: number, assets: Record<string, RebalanceAsset>, minOrderNotional: number): RebalanceTrade[] {
+  const total = trades.reduce((sum, t) => sum + t.value, 0)
+  if (total <= available) return trades
+  const scale = Math.max(available, 0) / total
+  const out: RebalanceTrade[] = []
+  for (const t of trades) {
+    const price = t.value / t.qty
+    const qty = roundQty(t.qty * scale, assets[t.symbol])
+    const value = qty * price
+    const minQty = assets[t.symbol]?.minQty
+    if (qty > 0 && value >= minOrderNotional && !(minQty && qty < minQty)) out.push({ ...t, qty, value })
+  }
+  return out
+}
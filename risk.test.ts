@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test"
+import { evaluateOrder, hasActiveLimits, isReducing, optionUnderlying, parseSymbolList, type RiskLimits, type RiskState } from "./risk"
+
+const none: RiskLimits = { maxOrderNotional: 0, maxPositionPct: 0, maxOpenPositions: 0, allowSymbols: [], denySymbols: [] }
+
+// $10,000 of equity: long $2,000 of AAPL, short $1,000 of TSLA
+const state: RiskState = {
+  equity: 10000,
+  positions: [
+    { symbol: "AAPL", marketValue: 2000 },
+    { symbol: "TSLA", marketValue: -1000 },
+  ],
+}
+
+describe("symbol helpers", () => {
+  test("optionUnderlying reads the root of an OCC symbol", () => {
+    expect(optionUnderlying("SPY260116C00500000")).toBe("SPY")
+    expect(optionUnderlying("BRK.B260116P00400000")).toBe("BRK.B")
+    expect(optionUnderlying("SPY")).toBeNull()
+  })
+
+  test("parseSymbolList splits on commas and spaces and drops crypto slashes", () => {
+    expect(parseSymbolList("aapl, msft\nBTC/USD,,")).toEqual(["AAPL", "MSFT", "BTCUSD"])
+    expect(parseSymbolList(undefined)).toEqual([])
+  })
+
+  test("hasActiveLimits is false only when every rule is off", () => {
+    expect(hasActiveLimits(none)).toBe(false)
+    expect(hasActiveLimits({ ...none, denySymbols: ["GME"] })).toBe(true)
+    expect(hasActiveLimits({ ...none, maxOpenPositions: 5 })).toBe(true)
+  })
+})
+
+describe("isReducing", () => {
+  test("is true for a sell that shrinks a long or a buy that shrinks a short", () => {
+    expect(isReducing({ symbol: "AAPL", side: "sell", value: 500 }, state)).toBe(true)
+    expect(isReducing({ symbol: "TSLA", side: "buy", value: 1000 }, state)).toBe(true)
+  })
+
+  test("is false for adding to a position, flipping it or opening one", () => {
+    expect(isReducing({ symbol: "AAPL", side: "buy", value: 500 }, state)).toBe(false)
+    expect(isReducing({ symbol: "AAPL", side: "sell", value: 2500 }, state)).toBe(false)
+    expect(isReducing({ symbol: "MSFT", side: "sell", value: 100 }, state)).toBe(false)
+  })
+
+  test("matches crypto pairs with or without the slash", () => {
+    expect(isReducing({ symbol: "BTC/USD", side: "sell", value: 10 }, { equity: 0, positions: [{ symbol: "BTCUSD", marketValue: 50 }] })).toBe(true)
+  })
+})
+
+describe("evaluateOrder", () => {
+  test("passes everything with no limits set", () => {
+    expect(evaluateOrder(none, { symbol: "MSFT", side: "buy", value: 1e9 }, state)).toBeNull()
+  })
+
+  test("rejects a symbol on the deny list, even when reducing", () => {
+    const limits = { ...none, denySymbols: ["AAPL"] }
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "buy", value: 100 }, state)?.rule).toBe("symbol_denylist")
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "sell", value: 100 }, state)?.rule).toBe("symbol_denylist")
+  })
+
+  test("matches option contracts against the lists by underlying", () => {
+    const denied = evaluateOrder({ ...none, denySymbols: ["SPY"] }, { symbol: "SPY260116C00500000", side: "buy", value: 300 }, state)
+    expect(denied).toEqual({ rule: "symbol_denylist", message: "SPY is on the symbol deny list" })
+    expect(evaluateOrder({ ...none, allowSymbols: ["SPY"] }, { symbol: "SPY260116C00500000", side: "buy", value: 300 }, state)).toBeNull()
+  })
+
+  test("rejects a symbol missing from the allow list unless the order reduces", () => {
+    const limits = { ...none, allowSymbols: ["MSFT"] }
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "buy", value: 100 }, state)?.rule).toBe("symbol_allowlist")
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "sell", value: 100 }, state)).toBeNull()
+  })
+
+  test("caps the value of an opening order but not of a reducing one", () => {
+    const limits = { ...none, maxOrderNotional: 1000 }
+    expect(evaluateOrder(limits, { symbol: "MSFT", side: "buy", value: 1000 }, state)).toBeNull()
+    expect(evaluateOrder(limits, { symbol: "MSFT", side: "buy", value: 1000.01 }, state)).toEqual({
+      rule: "max_order_notional",
+      message: "order value $1,000.01 exceeds the per-order limit of $1,000.00",
+    })
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "sell", value: 1500 }, state)).toBeNull()
+  })
+
+  test("measures the position after the trade against equity", () => {
+    const limits = { ...none, maxPositionPct: 25 }
+    // 2,000 + 500 is exactly 25%
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "buy", value: 500 }, state)).toBeNull()
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "buy", value: 600 }, state)).toEqual({
+      rule: "max_position_pct",
+      message: "position after trade would be $2,600.00 (26.00% of equity), above the 25% limit",
+    })
+    // Shorting TSLA further to −3,000
+    expect(evaluateOrder(limits, { symbol: "TSLA", side: "sell", value: 2000 }, state)?.rule).toBe("max_position_pct")
+    expect(evaluateOrder(limits, { symbol: "MSFT", side: "buy", value: 1 }, { ...state, equity: 0 })?.message).toBe("account equity is zero or negative")
+  })
+
+  test("never treats a multi-leg order as reducing a position in its underlying", () => {
+    // A $600 credit spread on SPY while holding $5,000 of SPY shares
+    const holdingSpy: RiskState = { equity: 10000, positions: [{ symbol: "SPY", marketValue: 5000 }] }
+    const spread = { symbol: "SPY", side: "sell" as const, value: 600, multiLeg: true }
+
+    expect(isReducing(spread, holdingSpy)).toBe(false)
+    expect(evaluateOrder({ ...none, maxOrderNotional: 500 }, spread, holdingSpy)?.rule).toBe("max_order_notional")
+    expect(evaluateOrder({ ...none, allowSymbols: ["QQQ"] }, spread, holdingSpy)?.rule).toBe("symbol_allowlist")
+    // Sized on its own, not netted against the shares
+    expect(evaluateOrder({ ...none, maxPositionPct: 5 }, spread, holdingSpy)?.message).toContain("$600.00 (6.00% of equity)")
+  })
+
+  test("counts open positions only for orders that open a new one", () => {
+    const limits = { ...none, maxOpenPositions: 2 }
+    expect(evaluateOrder(limits, { symbol: "MSFT", side: "buy", value: 100 }, state)?.rule).toBe("max_open_positions")
+    expect(evaluateOrder(limits, { symbol: "AAPL", side: "buy", value: 100 }, state)).toBeNull()
+    // A flat position no longer counts
+    const flat = { ...state, positions: [...state.positions, { symbol: "NVDA", marketValue: 0 }] }
+    expect(evaluateOrder({ ...none, maxOpenPositions: 3 }, { symbol: "MSFT", side: "buy", value: 100 }, flat)).toBeNull()
+  })
+})
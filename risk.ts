@@ -0,0 +1,157 @@
+/**
+ * Pre-trade risk engine
+ * Pure checks run against every order before it is sent to Alpaca.
+ * Callers gather the account state; this module only decides.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface RiskLimits {
+  /** Max dollar value of a single order. 0 disables the rule. */
+  maxOrderNotional: number
+  /** Max post-trade position value as a percent of equity. 0 disables the rule. */
+  maxPositionPct: number
+  /** Max number of distinct open positions. 0 disables the rule. */
+  maxOpenPositions: number
+  /** If non-empty, only these symbols (or option underlyings) may be traded. */
+  allowSymbols: string[]
+  /** Symbols (or option underlyings) that may never be traded. */
+  denySymbols: string[]
+}
+
+export interface RiskOrder {
+  symbol: string
+  side: "buy" | "sell"
+  /** Estimated dollar value of the order (qty × price × multiplier, or notional). */
+  value: number
+  /**
+   * A multi-leg option order, whose symbol is the underlying. Its legs are
+   * new contracts, so it is never matched against a position in the
+   * underlying itself.
+   */
+  multiLeg?: boolean
+}
+
+export interface RiskPosition {
+  symbol: string
+  /** Signed market value — negative for short positions. */
+  marketValue: number
+}
+
+export interface RiskState {
+  equity: number
+  positions: RiskPosition[]
+}
+
+export type RiskRule =
+  | "symbol_denylist"
+  | "symbol_allowlist"
+  | "max_order_notional"
+  | "max_position_pct"
+  | "max_open_positions"
+
+export interface RiskViolation {
+  rule: RiskRule
+  message: string
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function money(n: number): string {
+  return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+/** Strips the slash from crypto pairs so BTC/USD matches the BTCUSD position symbol. */
+export function normalizeSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace("/", "")
+}
+
+/** Returns the underlying root of an OCC option symbol, or null for non-options. */
+export function optionUnderlying(symbol: string): string | null {
+  const m = /^([A-Z.]{1,6})\d{6}[CP]\d{8}$/.exec(symbol.toUpperCase())
+  return m ? m[1] : null
+}
+
+export function parseSymbolList(raw: string | undefined | null): string[] {
+  if (!raw) return []
+  return String(raw).split(/[\s,]+/).filter(Boolean).map(normalizeSymbol)
+}
+
+export function hasActiveLimits(limits: RiskLimits): boolean {
+  return limits.maxOrderNotional > 0
+    || limits.maxPositionPct > 0
+    || limits.maxOpenPositions > 0
+    || limits.allowSymbols.length > 0
+    || limits.denySymbols.length > 0
+}
+
+/** True when the order shrinks an existing position without flipping it. */
+export function isReducing(order: RiskOrder, state: RiskState): boolean {
+  if (order.multiLeg) return false
+  const held = state.positions.find(p => normalizeSymbol(p.symbol) === normalizeSymbol(order.symbol))
+  if (!held || held.marketValue === 0) return false
+  const delta = order.side === "buy" ? order.value : -order.value
+  const after = held.marketValue + delta
+  return Math.sign(after) !== -Math.sign(held.marketValue) && Math.abs(after) < Math.abs(held.marketValue)
+}
+
+// ── Engine ──────────────────────────────────────────────────
+
+/**
+ * Checks an order against the configured limits. The deny list always
+ * applies; past it, orders that only reduce an existing position skip every
+ * rule, including the allow list and the per-order value limit, so a
+ * guardrail can never trap the account in a position.
+ */
+export function evaluateOrder(limits: RiskLimits, order: RiskOrder, state: RiskState): RiskViolation | null {
+  const symbol = normalizeSymbol(order.symbol)
+  const underlying = optionUnderlying(symbol)
+  const names = underlying ? [symbol, underlying] : [symbol]
+
+  const denied = names.find(n => limits.denySymbols.includes(n))
+  if (denied) {
+    return { rule: "symbol_denylist", message: `${denied} is on the symbol deny list` }
+  }
+
+  if (isReducing(order, state)) return null
+
+  if (limits.allowSymbols.length > 0 && !names.some(n => limits.allowSymbols.includes(n))) {
+    return { rule: "symbol_allowlist", message: `${symbol} is not on the symbol allow list` }
+  }
+
+  if (limits.maxOrderNotional > 0 && order.value > limits.maxOrderNotional) {
+    return {
+      rule: "max_order_notional",
+      message: `order value $${money(order.value)} exceeds the per-order limit of $${money(limits.maxOrderNotional)}`,
+    }
+  }
+
+  const held = order.multiLeg ? undefined : state.positions.find(p => normalizeSymbol(p.symbol) === symbol)
+
+  if (limits.maxPositionPct > 0) {
+    if (state.equity <= 0) {
+      return { rule: "max_position_pct", message: "account equity is zero or negative" }
+    }
+    const delta = order.side === "buy" ? order.value : -order.value
+    const after = Math.abs((held?.marketValue ?? 0) + delta)
+    const pct = (after / state.equity) * 100
+    if (pct > limits.maxPositionPct) {
+      return {
+        rule: "max_position_pct",
+        message: `position after trade would be $${money(after)} (${pct.toFixed(2)}% of equity), above the ${limits.maxPositionPct}% limit`,
+      }
+    }
+  }
+
+  if (limits.maxOpenPositions > 0 && !held) {
+    const open = state.positions.filter(p => p.marketValue !== 0).length
+    if (open + 1 > limits.maxOpenPositions) {
+      return {
+        rule: "max_open_positions",
+        message: `opening ${symbol} would make ${open + 1} open positions, above the limit of ${limits.maxOpenPositions}`,
+      }
+    }
+  }
+
+  return null
+}
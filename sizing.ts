@@ -0,0 +1,81 @@
+/**
+ * Position sizing
+ * Fixed-fractional sizing: risk a set share of equity between entry and
+ * stop, then cap the size by whatever else limits it (buying power,
+ * guardrails) and round to what the asset can trade.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface SizingCap {
+  /** What imposes the cap, e.g. "buying_power" or "max_position_pct" */
+  rule: string
+  /** Largest position value allowed, in dollars */
+  maxValue: number
+}
+
+export interface SizingInput {
+  equity: number
+  /** Fraction of equity to lose if the stop is hit (0.01 = 1%) */
+  riskFraction: number
+  entry: number
+  stop: number
+  /** Allow fractional shares; otherwise the size is rounded down to whole shares */
+  fractional: boolean
+  caps: SizingCap[]
+}
+
+export interface SizingResult {
+  side: "buy" | "sell"
+  qty: number
+  riskPerShare: number
+  /** Dollars the risk budget allows losing */
+  riskBudget: number
+  /** Dollars actually at risk with the final qty */
+  riskAmount: number
+  positionValue: number
+  /** Size before caps and rounding */
+  uncappedQty: number
+  /** "risk" when the risk budget set the size, otherwise the binding cap's rule */
+  limitedBy: string
+}
+
+// ── Sizing ──────────────────────────────────────────────────
+
+const FRACTIONAL_STEP = 1e-6
+
+export function sizePosition(input: SizingInput): SizingResult {
+  if (!(input.entry > 0) || !(input.stop > 0)) throw new Error("Entry and stop prices must be positive.")
+  if (input.entry === input.stop) throw new Error("Stop price must differ from the entry price.")
+  if (!(input.riskFraction > 0)) throw new Error("Risk budget must be greater than zero.")
+
+  // A stop below entry protects a long; above entry, a short
+  const side = input.stop < input.entry ? "buy" : "sell"
+  const riskPerShare = Math.abs(input.entry - input.stop)
+  const riskBudget = input.equity * input.riskFraction
+  const uncappedQty = riskBudget / riskPerShare
+
+  let qty = uncappedQty
+  let limitedBy = "risk"
+  for (const cap of input.caps) {
+    const capQty = Math.max(cap.maxValue, 0) / input.entry
+    if (capQty < qty) {
+      qty = capQty
+      limitedBy = cap.rule
+    }
+  }
+
+  const step = input.fractional ? FRACTIONAL_STEP : 1
+  qty = Number((Math.floor(qty / step + 1e-9) * step).toFixed(6))
+
+  return {
+    side,
+    qty,
+    riskPerShare,
+    riskBudget,
+    riskAmount: qty * riskPerShare,
+    positionValue: qty * input.entry,
+    uncappedQty,
+    limitedBy,
+  }
+}
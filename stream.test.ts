@@ -0,0 +1,305 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { activate, deactivate } from "./index"
+import { formatTradeUpdate, TradeUpdateStream, type SocketLike, type TradeUpdate } from "./stream"
+import type { PluginContext } from "./types"
+
+// ── Stand-in socket ─────────────────────────────────────────
+
+class StubSocket implements SocketLike {
+  static created: StubSocket[] = []
+
+  onopen: ((ev: unknown) => void) | null = null
+  onmessage: ((ev: { data: unknown }) => void) | null = null
+  onclose: ((ev: unknown) => void) | null = null
+  onerror: ((ev: unknown) => void) | null = null
+  sent: Array<Record<string, unknown>> = []
+  closed = false
+
+  constructor(readonly url: string) {
+    StubSocket.created.push(this)
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close(): void {
+    this.closed = true
+  }
+
+  /** Opens the socket and completes authorization, as Alpaca does for good keys */
+  connect(): void {
+    this.onopen?.({})
+    this.receive({ stream: "authorization", data: { status: "authorized", action: "authenticate" } })
+  }
+
+  receive(msg: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(msg) })
+  }
+
+  /** Server-side close */
+  drop(): void {
+    this.onclose?.({})
+  }
+}
+
+const silent = { info: () => {}, warn: () => {}, error: () => {} }
+
+/** Frames are decoded asynchronously; lets pending decodes and short timers run */
+const settle = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms))
+
+function tradeUpdate(event: string, id = "order-1"): TradeUpdate {
+  return {
+    event,
+    price: "190.12",
+    qty: "10",
+    position_qty: "10",
+    order: {
+      id,
+      client_order_id: "client-1",
+      symbol: "AAPL",
+      side: "buy",
+      qty: "10",
+      filled_qty: event === "fill" ? "10" : "0",
+      filled_avg_price: event === "fill" ? "190.12" : null,
+      filled_at: null,
+      order_type: "market",
+      limit_price: null,
+      stop_price: null,
+      status: event === "fill" ? "filled" : event,
+    },
+  }
+}
+
+function createStream(updates: TradeUpdate[] = []) {
+  return new TradeUpdateStream({
+    url: "wss://stream.test",
+    apiKey: "key",
+    secretKey: "secret",
+    onUpdate: update => updates.push(update),
+    log: silent,
+    createSocket: url => new StubSocket(url),
+    reconnectDelayMs: 1,
+    maxReconnectDelayMs: 1,
+  })
+}
+
+afterEach(() => {
+  StubSocket.created = []
+})
+
+// ── TradeUpdateStream ───────────────────────────────────────
+
+describe("TradeUpdateStream", () => {
+  test("authenticates on open and listens once authorized", async () => {
+    const stream = createStream()
+    stream.start()
+    const socket = StubSocket.created[0]
+    expect(socket.url).toBe("wss://stream.test")
+
+    socket.connect()
+    await settle()
+
+    expect(socket.sent).toEqual([
+      { action: "authenticate", data: { key_id: "key", secret_key: "secret" } },
+      { action: "listen", data: { streams: ["trade_updates"] } },
+    ])
+    stream.stop()
+  })
+
+  test("forwards trade_updates and ignores other streams", async () => {
+    const updates: TradeUpdate[] = []
+    const stream = createStream(updates)
+    stream.start()
+    const socket = StubSocket.created[0]
+    socket.connect()
+    socket.receive({ stream: "listening", data: { streams: ["trade_updates"] } })
+    socket.receive({ stream: "trade_updates", data: tradeUpdate("fill") })
+    socket.receive({ stream: "account_updates", data: { id: "x" } })
+    await settle()
+
+    expect(updates.map(u => u.event)).toEqual(["fill"])
+    expect(updates[0].order.id).toBe("order-1")
+    stream.stop()
+  })
+
+  test("decodes binary frames", async () => {
+    const updates: TradeUpdate[] = []
+    const stream = createStream(updates)
+    stream.start()
+    const socket = StubSocket.created[0]
+    socket.connect()
+    socket.onmessage?.({ data: new TextEncoder().encode(JSON.stringify({ stream: "trade_updates", data: tradeUpdate("canceled") })) })
+    await settle()
+
+    expect(updates.map(u => u.event)).toEqual(["canceled"])
+    stream.stop()
+  })
+
+  test("reconnects and authenticates again after the socket closes", async () => {
+    const updates: TradeUpdate[] = []
+    const stream = createStream(updates)
+    stream.start()
+    StubSocket.created[0].connect()
+    StubSocket.created[0].drop()
+    await settle(20)
+
+    expect(StubSocket.created).toHaveLength(2)
+    const second = StubSocket.created[1]
+    second.connect()
+    second.receive({ stream: "trade_updates", data: tradeUpdate("fill", "order-2") })
+    await settle()
+
+    expect(second.sent[0]).toEqual({ action: "authenticate", data: { key_id: "key", secret_key: "secret" } })
+    expect(updates.map(u => u.order.id)).toEqual(["order-2"])
+    stream.stop()
+  })
+
+  test("retries when the socket cannot be created", async () => {
+    let failures = 1
+    const stream = new TradeUpdateStream({
+      url: "wss://stream.test",
+      apiKey: "key",
+      secretKey: "secret",
+      onUpdate: () => {},
+      log: silent,
+      createSocket: url => {
+        if (failures-- > 0) throw new Error("connection refused")
+        return new StubSocket(url)
+      },
+      reconnectDelayMs: 1,
+      maxReconnectDelayMs: 1,
+    })
+    stream.start()
+    expect(StubSocket.created).toHaveLength(0)
+    await settle(20)
+
+    expect(StubSocket.created).toHaveLength(1)
+    stream.stop()
+  })
+
+  test("gives up without reconnecting when authorization fails", async () => {
+    const stream = createStream()
+    stream.start()
+    const socket = StubSocket.created[0]
+    socket.onopen?.({})
+    socket.receive({ stream: "authorization", data: { status: "unauthorized", action: "authenticate" } })
+    await settle(20)
+
+    expect(socket.closed).toBe(true)
+    expect(StubSocket.created).toHaveLength(1)
+  })
+
+  test("stop() closes the socket, detaches handlers and cancels reconnects", async () => {
+    const updates: TradeUpdate[] = []
+    const stream = createStream(updates)
+    stream.start()
+    const socket = StubSocket.created[0]
+    socket.connect()
+    stream.stop()
+
+    expect(socket.closed).toBe(true)
+    expect(socket.onmessage).toBeNull()
+    expect(socket.onclose).toBeNull()
+    await settle(20)
+    expect(StubSocket.created).toHaveLength(1)
+
+    // A close that was already in flight does not bring the stream back
+    stream.start()
+    const second = StubSocket.created[1]
+    second.drop()
+    stream.stop()
+    await settle(20)
+    expect(StubSocket.created).toHaveLength(2)
+  })
+})
+
+// ── Messages ────────────────────────────────────────────────
+
+describe("formatTradeUpdate", () => {
+  test("reports a fill at the average price across partial fills", () => {
+    // 4 @ 190.00 earlier, then the last 6 @ 191.00
+    const update = tradeUpdate("fill")
+    update.price = "191.00"
+    update.order.filled_avg_price = "190.60"
+
+    expect(formatTradeUpdate("LIVE", update)).toBe("[LIVE] Order filled: BUY 10 AAPL @ $190.60 — position now 10 (ID: order-1)")
+  })
+
+  test("reports a partial fill at the price of that execution", () => {
+    const update = { ...tradeUpdate("partial_fill"), price: "190.00", qty: "4" }
+    update.order.filled_qty = "4"
+
+    expect(formatTradeUpdate("PAPER", update)).toBe("[PAPER] Partial fill: BUY 4 AAPL @ $190.00 — 4/10 filled — position now 10 (ID: order-1)")
+  })
+})
+
+// ── Plugin wiring ───────────────────────────────────────────
+
+describe("trade update notifications", () => {
+  const originalWebSocket = globalThis.WebSocket
+
+  afterEach(() => {
+    deactivate()
+    globalThis.WebSocket = originalWebSocket
+  })
+
+  async function activateWith(settings: Record<string, unknown>) {
+    const messages: string[] = []
+    globalThis.WebSocket = StubSocket as unknown as typeof WebSocket
+    const ctx: PluginContext = {
+      pluginName: "alpaca-trading",
+      getSetting: <T>(key: string) => settings[key] as T,
+      log: silent,
+      sendClaudeMessage: async (msg) => { messages.push(msg) },
+      getDb: () => { throw new Error("no database in tests") },
+    }
+    await activate(ctx)
+    return messages
+  }
+
+  test("opens one stream per configured account", async () => {
+    await activateWith({ paperApiKey: "pk", paperSecretKey: "ps", liveApiKey: "lk", liveSecretKey: "ls" })
+
+    expect(StubSocket.created.map(s => s.url)).toEqual([
+      "wss://paper-api.alpaca.markets/stream",
+      "wss://api.alpaca.markets/stream",
+    ])
+  })
+
+  test("notifies per event according to the notifyOn settings", async () => {
+    const messages = await activateWith({ paperApiKey: "pk", paperSecretKey: "ps", notifyOnCancel: false })
+    const socket = StubSocket.created[0]
+    socket.connect()
+    for (const event of ["new", "fill", "canceled", "rejected"]) {
+      socket.receive({ stream: "trade_updates", data: tradeUpdate(event) })
+    }
+    await settle()
+
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toStartWith("[PAPER] Order filled: BUY 10 AAPL @ $190.12")
+    expect(messages[1]).toStartWith("[PAPER] Order REJECTED")
+  })
+
+  test("opens no streams when streamTradeUpdates is off", async () => {
+    await activateWith({ paperApiKey: "pk", paperSecretKey: "ps", streamTradeUpdates: false })
+    expect(StubSocket.created).toHaveLength(0)
+  })
+
+  test("deactivate() closes every stream for good", async () => {
+    const messages = await activateWith({ paperApiKey: "pk", paperSecretKey: "ps", liveApiKey: "lk", liveSecretKey: "ls" })
+    const sockets = [...StubSocket.created]
+    for (const socket of sockets) socket.connect()
+
+    deactivate()
+    expect(sockets.every(s => s.closed)).toBe(true)
+
+    for (const socket of sockets) {
+      socket.receive({ stream: "trade_updates", data: tradeUpdate("fill") })
+      socket.drop()
+    }
+    await settle(1100)
+    expect(messages).toHaveLength(0)
+    expect(StubSocket.created).toHaveLength(2)
+  })
+})
@@ -0,0 +1,212 @@
+/**
+ * Alpaca trade_updates stream
+ * Websocket client for order events (fills, cancels, rejections) with
+ * authentication, auto-reconnect and an injectable socket for testing.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export type TradeUpdateEvent =
+  | "new"
+  | "fill"
+  | "partial_fill"
+  | "canceled"
+  | "expired"
+  | "rejected"
+  | "replaced"
+  | "done_for_day"
+  | "pending_new"
+  | "pending_cancel"
+  | "pending_replace"
+  | string
+
+export interface TradeUpdate {
+  event: TradeUpdateEvent
+  timestamp?: string
+  price?: string
+  qty?: string
+  position_qty?: string
+  order: {
+    id: string
+    client_order_id: string
+    symbol: string
+    side: string
+    qty: string | null
+    notional?: string | null
+    filled_qty: string
+    filled_avg_price: string | null
+    filled_at: string | null
+    order_type: string
+    limit_price: string | null
+    stop_price: string | null
+    status: string
+  }
+}
+
+/** The subset of the WebSocket API the stream relies on — satisfied by the global WebSocket or a test stand-in */
+export interface SocketLike {
+  onopen: ((ev: unknown) => void) | null
+  onmessage: ((ev: { data: unknown }) => void) | null
+  onclose: ((ev: unknown) => void) | null
+  onerror: ((ev: unknown) => void) | null
+  send(data: string): void
+  close(): void
+}
+
+export type SocketFactory = (url: string) => SocketLike
+
+export interface TradeUpdateStreamOptions {
+  url: string
+  apiKey: string
+  secretKey: string
+  onUpdate: (update: TradeUpdate) => void
+  log?: { info: (...args: unknown[]) => void; warn: (...args: unknown[]) => void; error: (...args: unknown[]) => void }
+  createSocket?: SocketFactory
+  /** First reconnect delay; doubles per failed attempt up to maxReconnectDelayMs */
+  reconnectDelayMs?: number
+  maxReconnectDelayMs?: number
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const defaultSocketFactory: SocketFactory = (url) => new WebSocket(url) as unknown as SocketLike
+
+/** Alpaca's trading stream sends binary frames; test servers usually send text. */
+async function decodeFrame(data: unknown): Promise<string> {
+  if (typeof data === "string") return data
+  if (data instanceof ArrayBuffer) return new TextDecoder().decode(data)
+  if (ArrayBuffer.isView(data)) return new TextDecoder().decode(data)
+  if (data && typeof (data as Blob).text === "function") return (data as Blob).text()
+  return String(data)
+}
+
+// ── Stream ──────────────────────────────────────────────────
+
+export class TradeUpdateStream {
+  private opts: TradeUpdateStreamOptions
+  private socket: SocketLike | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private attempts = 0
+  private stopped = false
+
+  constructor(opts: TradeUpdateStreamOptions) {
+    this.opts = opts
+  }
+
+  start(): void {
+    this.stopped = false
+    this.connect()
+  }
+
+  stop(): void {
+    this.stopped = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    const socket = this.socket
+    this.socket = null
+    if (socket) {
+      socket.onclose = null
+      socket.onmessage = null
+      socket.onerror = null
+      try { socket.close() } catch { /* already closed */ }
+    }
+  }
+
+  private connect(): void {
+    const create = this.opts.createSocket ?? defaultSocketFactory
+    let socket: SocketLike
+    try {
+      socket = create(this.opts.url)
+    } catch (e) {
+      this.opts.log?.error("trade_updates: could not open socket", e)
+      this.scheduleReconnect()
+      return
+    }
+    this.socket = socket
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({
+        action: "authenticate",
+        data: { key_id: this.opts.apiKey, secret_key: this.opts.secretKey },
+      }))
+    }
+    socket.onmessage = (ev) => {
+      decodeFrame(ev.data)
+        .then(text => this.handleMessage(socket, text))
+        .catch(e => this.opts.log?.warn("trade_updates: bad frame", e))
+    }
+    socket.onerror = (ev) => {
+      this.opts.log?.warn("trade_updates: socket error", ev)
+    }
+    socket.onclose = () => {
+      if (this.socket === socket) this.socket = null
+      this.scheduleReconnect()
+    }
+  }
+
+  private handleMessage(socket: SocketLike, text: string): void {
+    const msg = JSON.parse(text) as { stream: string; data: Record<string, unknown> }
+
+    if (msg.stream === "authorization") {
+      if (msg.data.status === "authorized") {
+        this.attempts = 0
+        socket.send(JSON.stringify({ action: "listen", data: { streams: ["trade_updates"] } }))
+      } else {
+        // Bad credentials will not fix themselves, so don't hammer the endpoint
+        this.opts.log?.error("trade_updates: authorization failed", msg.data)
+        this.stop()
+      }
+      return
+    }
+
+    if (msg.stream === "listening") {
+      this.opts.log?.info(`trade_updates: listening on ${this.opts.url}`)
+      return
+    }
+
+    if (msg.stream === "trade_updates") {
+      this.opts.onUpdate(msg.data as unknown as TradeUpdate)
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return
+    const base = this.opts.reconnectDelayMs ?? 1000
+    const max = this.opts.maxReconnectDelayMs ?? 30000
+    const delay = Math.min(max, base * 2 ** this.attempts) * (0.5 + Math.random() / 2)
+    this.attempts++
+    this.opts.log?.info(`trade_updates: reconnecting in ${Math.round(delay)}ms`)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (!this.stopped) this.connect()
+    }, delay)
+  }
+}
+
+/**
+ * One-line chat message for a trade update, e.g. "[LIVE] Order filled: BUY 10
+ * AAPL @ $190.12". A fill is reported at the order's average price, since
+ * `price` is only that of the last execution.
+ */
+export function formatTradeUpdate(label: string, update: TradeUpdate): string {
+  const o = update.order
+  const side = o.side.toUpperCase()
+  const size = o.qty ?? (o.notional ? `$${o.notional}` : "")
+  const money = (v: string | number) => Number(v).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  const position = update.position_qty !== undefined ? ` — position now ${update.position_qty}` : ""
+
+  switch (update.event) {
+    case "fill":
+      return `[${label}] Order filled: ${side} ${o.filled_qty} ${o.symbol} @ $${money(o.filled_avg_price ?? update.price ?? 0)}${position} (ID: ${o.id})`
+    case "partial_fill":
+      return `[${label}] Partial fill: ${side} ${update.qty ?? "?"} ${o.symbol} @ $${money(update.price ?? 0)} — ${o.filled_qty}/${size} filled${position} (ID: ${o.id})`
+    case "canceled":
+      return `[${label}] Order canceled: ${side} ${size} ${o.symbol} (${o.order_type}), ${o.filled_qty} filled (ID: ${o.id})`
+    case "expired":
+      return `[${label}] Order expired: ${side} ${size} ${o.symbol} (${o.order_type}), ${o.filled_qty} filled (ID: ${o.id})`
+    case "rejected":
+      return `[${label}] Order REJECTED: ${side} ${size} ${o.symbol} (${o.order_type}) (ID: ${o.id})`
+    default:
+      return `[${label}] Order ${update.event}: ${side} ${size} ${o.symbol} (ID: ${o.id})`
+  }
+}